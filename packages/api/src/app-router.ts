@@ -12,6 +12,7 @@ import {
   insecureTest,
   geolocateMiddleware,
   authenticateWithCors,
+  rateLimiter,
 } from "./middleware";
 import controllers from "./controllers";
 import streamProxy from "./controllers/stream-proxy";
@@ -19,6 +20,7 @@ import apiProxy from "./controllers/api-proxy";
 import { getBroadcasterHandler } from "./controllers/broadcaster";
 import WebhookCannon from "./webhooks/cannon";
 import Queue, { NoopQueue, RabbitQueue } from "./store/queue";
+import { startMaintenance } from "./store/maintenance";
 import { CliArgs } from "./parse-cli";
 import { regionsGetter } from "./controllers/region";
 import { pathJoin } from "./controllers/helpers";
@@ -99,6 +101,8 @@ export default async function makeApp(params: CliArgs) {
     appName: ownRegion ? `${ownRegion}-api` : "api",
   });
 
+  const stopMaintenance = startMaintenance(db);
+
   // RabbitMQ
   const queue: Queue = amqpUrl
     ? await RabbitQueue.connect(amqpUrl, amqpTasksExchange)
@@ -142,6 +146,10 @@ export default async function makeApp(params: CliArgs) {
     taskScheduler.stop();
   });
 
+  process.on("beforeExit", (code) => {
+    stopMaintenance();
+  });
+
   if (!stripeSecretKey) {
     console.warn(
       "Warning: Missing Stripe API key. In development, make sure to configure one in .env.local file."
@@ -164,6 +172,7 @@ export default async function makeApp(params: CliArgs) {
     req.queue = queue;
     req.taskScheduler = taskScheduler;
     req.stripe = stripe;
+    req.webhookCannon = webhookCannon;
     next();
   });
   app.use(
@@ -183,6 +192,8 @@ export default async function makeApp(params: CliArgs) {
     })
   );
 
+  app.use(rateLimiter());
+
   // stripe webhook requires raw body
   // https://github.com/stripe/stripe-node/issues/331
   app.use("/api/stripe/webhook", bodyParser.raw({ type: "*/*" }));
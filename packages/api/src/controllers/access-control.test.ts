@@ -1,11 +1,21 @@
-import serverPromise, { TestServer } from "../test-server";
-import { TestClient, clearDatabase, setupUsers } from "../test-helpers";
+import serverPromise, { params, TestServer } from "../test-server";
+import bodyParser from "body-parser";
+import {
+  AuxTestServer,
+  TestClient,
+  clearDatabase,
+  setupUsers,
+  startAuxTestServer,
+} from "../test-helpers";
 import { SigningKey, SigningKeyResponsePayload, User } from "../schema/types";
 import { WithID } from "../store/types";
 import { Asset } from "../schema/types";
 import { v4 as uuid } from "uuid";
 import { db } from "../store";
+import { ACCESS_CONTROL_DECISION_RETENTION } from "../store/maintenance";
+import { PLAYBACK_HITS_WINDOW } from "../store/playback-hit-table";
 import { generateUniquePlaybackId } from "./generate-keys";
+import { generateKeyPairSync } from "crypto";
 
 // includes auth file tests
 
@@ -186,6 +196,383 @@ describe("controllers/signing-key", () => {
       expect(res.status).toBe(204);
     });
 
+    it("should enforce geo restrictions of the playback policy", async () => {
+      const res = await client.post("/stream", {
+        name: "test",
+        playbackPolicy: {
+          type: "public",
+          allowedCountries: ["US", "CA"],
+          blockedContinents: ["AS"],
+        },
+      });
+      expect(res.status).toBe(201);
+      const { playbackId } = await res.json();
+
+      client.jwtAuth = adminToken;
+      const gate = (geo?: { country?: string; continent?: string }) =>
+        client.post("/access-control/gate", {
+          stream: `video+${playbackId}`,
+          type: "jwt",
+          geo,
+        });
+      let gateRes = await gate({ country: "us", continent: "NA" });
+      expect(gateRes.status).toBe(204);
+      expect(gateRes.headers.get("cache-control")).toBe("no-store");
+      gateRes = await gate({ country: "BR", continent: "SA" });
+      expect(gateRes.status).toBe(403);
+      expect(gateRes.headers.get("cache-control")).toBe("no-store");
+      // continent rules apply as well, even if the country is allowed
+      expect((await gate({ country: "US", continent: "AS" })).status).toBe(403);
+      expect((await gate({ country: "US" })).status).toBe(403);
+      expect((await gate()).status).toBe(403);
+
+      // the check can be skipped for callers not forwarding the location yet
+      params.gateSkipMissingViewerInfo = true;
+      try {
+        expect((await gate()).status).toBe(204);
+        expect((await gate({ country: "BR" })).status).toBe(403);
+      } finally {
+        params.gateSkipMissingViewerInfo = false;
+      }
+
+      // content without restrictions doesn't need the viewer location
+      const res2 = await client.post("/access-control/gate", {
+        stream: `video+${publicPlaybackId}`,
+        type: "jwt",
+      });
+      expect(res2.status).toBe(204);
+      expect(res2.headers.get("cache-control")).toBe(
+        "max-age=120,stale-while-revalidate=600"
+      );
+    });
+
+    it("should only allow playback from the allowed origins", async () => {
+      const res = await client.post("/stream", {
+        name: "test",
+        playbackPolicy: {
+          type: "public",
+          allowedOrigins: ["https://example.com", "*.example.org"],
+        },
+      });
+      expect(res.status).toBe(201);
+      const { playbackId } = await res.json();
+
+      client.jwtAuth = adminToken;
+      const gate = (headers: { origin?: string; referer?: string }) =>
+        client.post("/access-control/gate", {
+          stream: `video+${playbackId}`,
+          type: "jwt",
+          ...headers,
+        });
+      const allowed = [
+        { origin: "https://example.com" },
+        { referer: "https://example.com/watch?v=1" },
+        { origin: "https://player.example.org" },
+        { origin: "http://a.b.example.org" },
+      ];
+      for (const headers of allowed) {
+        expect((await gate(headers)).status).toBe(204);
+      }
+      const disallowed = [
+        {},
+        { origin: "http://example.com" },
+        { origin: "https://sub.example.com" },
+        { origin: "https://example.org" },
+        { origin: "https://pirate-example.org" },
+        { referer: "https://pirate.site/example.com" },
+      ];
+      for (const headers of disallowed) {
+        const gateRes = await gate(headers);
+        expect(gateRes.status).toBe(403);
+        expect(gateRes.headers.get("cache-control")).toBe("no-store");
+      }
+
+      params.gateSkipMissingViewerInfo = true;
+      try {
+        expect((await gate({})).status).toBe(204);
+        expect((await gate({ origin: "https://example.org" })).status).toBe(
+          403
+        );
+      } finally {
+        params.gateSkipMissingViewerInfo = false;
+      }
+    });
+
+    it("should only allow playback within the availability window", async () => {
+      const hour = 60 * 60 * 1000;
+      let res = await client.post("/stream", {
+        name: "test",
+        playbackPolicy: {
+          type: "public",
+          availableFrom: Date.now() + hour,
+          availableUntil: Date.now() - hour,
+        },
+      });
+      expect(res.status).toBe(400);
+
+      res = await client.post("/stream", {
+        name: "test",
+        playbackPolicy: {
+          type: "public",
+          availableFrom: Date.now() + hour,
+        },
+      });
+      expect(res.status).toBe(201);
+      const stream = await res.json();
+
+      client.jwtAuth = adminToken;
+      const gate = () =>
+        client.post("/access-control/gate", {
+          stream: `video+${stream.playbackId}`,
+          type: "jwt",
+        });
+      expect((await gate()).status).toBe(403);
+
+      await db.stream.update(stream.id, {
+        playbackPolicy: { type: "public", availableUntil: Date.now() - hour },
+      });
+      expect((await gate()).status).toBe(403);
+
+      await db.stream.update(stream.id, {
+        playbackPolicy: {
+          type: "public",
+          availableFrom: Date.now() - hour,
+          availableUntil: Date.now() + hour,
+        },
+      });
+      const gateRes = await gate();
+      expect(gateRes.status).toBe(204);
+      expect(gateRes.headers.get("cache-control")).toBe("no-store");
+    });
+
+    it("should limit concurrent viewers per JWT viewer ID", async () => {
+      const res = await client.post("/stream", {
+        name: "test",
+        playbackPolicy: { type: "jwt", maxConcurrentViewers: 1 },
+      });
+      expect(res.status).toBe(201);
+      const { playbackId } = await res.json();
+
+      client.jwtAuth = adminToken;
+      const gate = (viewerId?: string, sessionId?: string) =>
+        client.post("/access-control/gate", {
+          stream: `video+${playbackId}`,
+          type: "jwt",
+          pub: signingKey.publicKey,
+          viewerId,
+          sessionId,
+        });
+
+      let gateRes = await gate("viewer-1", "session-1");
+      expect(gateRes.status).toBe(204);
+      expect(gateRes.headers.get("cache-control")).toBe("no-store");
+      // the same session can keep checking access
+      expect((await gate("viewer-1", "session-1")).status).toBe(204);
+      expect((await gate("viewer-1", "session-2")).status).toBe(403);
+      expect((await gate("viewer-2", "session-3")).status).toBe(204);
+      expect((await gate()).status).toBe(403);
+
+      // concurrent sessions can't race past the limit
+      const results = await Promise.all(
+        ["session-4", "session-5", "session-6"].map((sessionId) =>
+          gate("viewer-3", sessionId)
+        )
+      );
+      expect(results.filter((r) => r.status === 204)).toHaveLength(1);
+
+      params.gateSkipMissingViewerInfo = true;
+      try {
+        expect((await gate()).status).toBe(204);
+        expect((await gate("viewer-1")).status).toBe(204);
+        expect((await gate("viewer-1", "session-7")).status).toBe(403);
+      } finally {
+        params.gateSkipMissingViewerInfo = false;
+      }
+    });
+
+    it("should limit viewers of content from users on a limited plan", async () => {
+      await db.user.update(nonAdminUser.id, {
+        createdAt: 0,
+        stripeProductId: "hacker_1",
+      });
+      client.jwtAuth = adminToken;
+      const gate = () =>
+        client.post("/access-control/gate", {
+          stream: `video+${publicPlaybackId}`,
+          type: "jwt",
+        });
+      for (let i = 0; i < 5; i++) {
+        expect((await gate()).status).toBe(204);
+      }
+      expect((await gate()).status).toBe(403);
+
+      // the counters are shared through the database
+      const [hits] = await db.playbackHit.find({
+        key: `plan:${publicPlaybackId}`,
+      });
+      expect(hits).toHaveLength(6);
+    });
+
+    it("should delete expired playback hits of all keys", async () => {
+      const old = Date.now() - PLAYBACK_HITS_WINDOW - 1000;
+      await db.playbackHit.record("key-1", undefined, old);
+      await db.playbackHit.record("key-2", "session-1", old);
+      await db.playbackHit.record("key-2", "session-2");
+
+      expect(await db.playbackHit.deleteExpired()).toBe(2);
+      const [hits] = await db.playbackHit.find({});
+      expect(hits).toMatchObject([{ key: "key-2", sessionId: "session-2" }]);
+    });
+
+    describe("webhook gate", () => {
+      let gateServer: AuxTestServer;
+      let gateCalls: string[];
+
+      beforeAll(async () => {
+        gateServer = await startAuxTestServer();
+        gateServer.app.use(bodyParser.json());
+        gateServer.app.post("/gate", (req, res) => {
+          const { accessKey } = req.body;
+          gateCalls.push(accessKey);
+          if (accessKey === "cached") {
+            res.set("Cache-Control", "max-age=60");
+            return res.status(204).end();
+          } else if (accessKey === "denied") {
+            return res.status(403).json({ ttl: 60 });
+          }
+          res.status(200).json({});
+        });
+      });
+
+      afterAll(() => gateServer.close());
+
+      it("should cache webhook decisions as requested by the webhook", async () => {
+        gateCalls = [];
+        let res = await client.post("/webhook", {
+          name: "gate",
+          url: `${gateServer.host}/gate`,
+          events: ["playback.accessControl"],
+        });
+        expect(res.status).toBe(201);
+        const webhook = await res.json();
+        res = await client.post("/stream", {
+          name: "test",
+          playbackPolicy: { type: "webhook", webhookId: webhook.id },
+        });
+        expect(res.status).toBe(201);
+        const { playbackId } = await res.json();
+
+        client.jwtAuth = adminToken;
+        const gate = (accessKey: string) =>
+          client.post("/access-control/gate", {
+            stream: `video+${playbackId}`,
+            type: "accessKey",
+            accessKey,
+          });
+        for (let i = 0; i < 3; i++) {
+          expect((await gate("cached")).status).toBe(204);
+          expect((await gate("denied")).status).toBe(502);
+          expect((await gate("uncached")).status).toBe(204);
+        }
+        expect(gateCalls.filter((k) => k === "cached")).toHaveLength(1);
+        expect(gateCalls.filter((k) => k === "denied")).toHaveLength(1);
+        expect(gateCalls.filter((k) => k === "uncached")).toHaveLength(3);
+      });
+    });
+
+    it("should log the gate decisions for the content owner", async () => {
+      client.jwtAuth = adminToken;
+      let res = await client.post("/access-control/gate", {
+        stream: `video+${gatedPlaybackId}`,
+        type: "jwt",
+        pub: signingKey.publicKey,
+      });
+      expect(res.status).toBe(204);
+      res = await client.post("/access-control/gate", {
+        stream: `video+${gatedPlaybackId}`,
+        type: "jwt",
+      });
+      expect(res.status).toBe(403);
+
+      client.jwtAuth = nonAdminToken;
+      res = await client.get(
+        `/access-control/decision?playbackId=${gatedPlaybackId}`
+      );
+      expect(res.status).toBe(200);
+      const decisions = await res.json();
+      expect(decisions).toHaveLength(2);
+      expect(decisions.find((d) => d.allowed)).toMatchObject({
+        userId: nonAdminUser.id,
+        playbackId: gatedPlaybackId,
+        contentType: "stream",
+        policyType: "jwt",
+        signingKeyId: signingKey.id,
+        requesterId: expect.any(String),
+      });
+      expect(decisions.find((d) => !d.allowed)).toMatchObject({
+        playbackId: gatedPlaybackId,
+        reason: "Content is gated and requires a public key",
+      });
+
+      const filters = JSON.stringify([{ id: "allowed", value: false }]);
+      res = await client.get(`/access-control/decision?filters=${filters}`);
+      expect(res.status).toBe(200);
+      await expect(res.json()).resolves.toHaveLength(1);
+
+      // decisions are only visible to the content owner
+      client.jwtAuth = adminToken;
+      res = await client.get(`/access-control/decision`);
+      await expect(res.json()).resolves.toHaveLength(0);
+    });
+
+    it("should log repeated gate decisions of a viewer only once", async () => {
+      client.jwtAuth = adminToken;
+      const gate = (viewerIp: string) =>
+        client.post("/access-control/gate", {
+          stream: `video+${gatedPlaybackId}`,
+          type: "jwt",
+          pub: signingKey.publicKey,
+          viewerIp,
+        });
+      for (let i = 0; i < 3; i++) {
+        expect((await gate("203.0.113.1")).status).toBe(204);
+      }
+      expect((await gate("203.0.113.2")).status).toBe(204);
+
+      client.jwtAuth = nonAdminToken;
+      const res = await client.get(
+        `/access-control/decision?playbackId=${gatedPlaybackId}`
+      );
+      expect(res.status).toBe(200);
+      const decisions = await res.json();
+      expect(decisions).toHaveLength(2);
+      expect(decisions[0].requesterId).not.toEqual(decisions[1].requesterId);
+    });
+
+    it("should delete the gate decisions older than the retention", async () => {
+      client.jwtAuth = adminToken;
+      const res = await client.post("/access-control/gate", {
+        stream: `video+${gatedPlaybackId}`,
+        type: "jwt",
+        pub: signingKey.publicKey,
+      });
+      expect(res.status).toBe(204);
+
+      const [[decision]] = await db.accessControlDecision.find({
+        playbackId: gatedPlaybackId,
+      });
+      const before = Date.now() - ACCESS_CONTROL_DECISION_RETENTION;
+      expect(await db.accessControlDecision.deleteCreatedBefore(before)).toBe(
+        0
+      );
+      await db.accessControlDecision.update(decision.id, {
+        createdAt: before - 1000,
+      });
+      expect(await db.accessControlDecision.deleteCreatedBefore(before)).toBe(
+        1
+      );
+    });
+
     it("should not allow playback if user is suspended", async () => {
       client.jwtAuth = adminToken;
       const res = await client.post("/access-control/gate", {
@@ -229,5 +616,104 @@ describe("controllers/signing-key", () => {
       });
       expect(res2.status).toBe(403);
     });
+
+    it("should not allow playback with expired or out of scope signing keys", async () => {
+      const gate = () =>
+        client.post("/access-control/gate", {
+          stream: `video+${gatedPlaybackId}`,
+          type: "jwt",
+          pub: signingKey.publicKey,
+        });
+      const patch = async (payload: Partial<SigningKey>) => {
+        client.jwtAuth = nonAdminToken;
+        const res = await client.patch(
+          `/access-control/signing-key/${signingKey.id}`,
+          payload
+        );
+        expect(res.status).toBe(204);
+        client.jwtAuth = adminToken;
+      };
+
+      await patch({ expiresAt: Date.now() - 1000 });
+      expect((await gate()).status).toBe(403);
+      await patch({
+        expiresAt: Date.now() + 60 * 1000,
+        playbackIds: [publicPlaybackId],
+      });
+      expect((await gate()).status).toBe(403);
+      await patch({ playbackIds: [publicPlaybackId, gatedPlaybackId] });
+      expect((await gate()).status).toBe(204);
+      await patch({ creatorIds: ["tenant-a"] });
+      expect((await gate()).status).toBe(403);
+    });
+
+    describe("JWKS signing keys", () => {
+      let jwksServer: AuxTestServer;
+      let pub: string;
+      let otherPub: string;
+
+      beforeAll(async () => {
+        const keyPair = () =>
+          generateKeyPairSync("ec", { namedCurve: "P-256" }).publicKey;
+        const publicKey = keyPair();
+        pub = Buffer.from(
+          publicKey.export({ type: "spki", format: "pem" })
+        ).toString("base64");
+        otherPub = Buffer.from(
+          keyPair().export({ type: "spki", format: "pem" })
+        ).toString("base64");
+
+        jwksServer = await startAuxTestServer();
+        jwksServer.app.get("/jwks.json", (req, res) => {
+          res.json({
+            keys: [{ ...publicKey.export({ format: "jwk" }), use: "sig" }],
+          });
+        });
+      });
+
+      afterAll(() => jwksServer.close());
+
+      it("should not allow JWKS on local addresses", async () => {
+        const res = await client.post("/access-control/signing-key", {
+          jwksUrl: `${jwksServer.host}/jwks.json`,
+        });
+        expect(res.status).toBe(400);
+        await expect(res.json()).resolves.toEqual({
+          errors: [
+            `invalid JWKS at ${jwksServer.host}/jwks.json: JWKS URL resolves to a local address`,
+          ],
+        });
+      });
+
+      it("should allow playback with the keys of a registered JWKS", async () => {
+        // only admins can register JWKS served from the test machine
+        client.jwtAuth = adminToken;
+        let res = await client.post("/access-control/signing-key", {
+          jwksUrl: `${jwksServer.host}/not-found.json`,
+        });
+        expect(res.status).toBe(400);
+        res = await client.post("/access-control/signing-key", {
+          jwksUrl: `${jwksServer.host}/jwks.json`,
+        });
+        expect(res.status).toBe(201);
+        const created = await res.json();
+        expect(created.publicKey).toBeUndefined();
+
+        res = await client.post("/stream", {
+          name: "jwks",
+          playbackPolicy: { type: "jwt" },
+        });
+        expect(res.status).toBe(201);
+        const { playbackId } = await res.json();
+        const gate = (pub: string) =>
+          client.post("/access-control/gate", {
+            stream: `video+${playbackId}`,
+            type: "jwt",
+            pub,
+          });
+        expect((await gate(pub)).status).toBe(204);
+        expect((await gate(otherPub)).status).toBe(403);
+      });
+    });
   });
 });
@@ -1,6 +1,9 @@
-import signingKeyApp from "./signing-key";
-import { validatePost } from "../middleware";
-import { Request, Router } from "express";
+import signingKeyApp, {
+  findJwksSigningKey,
+  signingKeyScopeError,
+} from "./signing-key";
+import { authorizer, validatePost } from "../middleware";
+import { Request, Response as ExpressResponse, Router } from "express";
 import _ from "lodash";
 import { db } from "../store";
 import sql from "sql-template-strings";
@@ -13,26 +16,108 @@ import {
 } from "../store/errors";
 import tracking from "../middleware/tracking";
 import { DBWebhook } from "../store/webhook-table";
-import { Asset, PlaybackPolicy, User } from "../schema/types";
-import { signatureHeaders, storeTriggerStatus } from "../webhooks/cannon";
+import {
+  AccessControlDecision,
+  AccessControlGatePayload,
+  Asset,
+  PlaybackPolicy,
+  User,
+} from "../schema/types";
+import {
+  storeTriggerStatus,
+  webhookSignatureHeaders,
+} from "../webhooks/cannon";
 import { Response } from "node-fetch";
-import { fetchWithTimeoutAndRedirects } from "../util";
+import { fetchWithTimeoutAndRedirects, LruCache } from "../util";
 import fetch from "node-fetch";
+import { Counter } from "prom-client";
+import { URL } from "url";
 import { WithID } from "../store/types";
 import { DBStream } from "../store/stream-table";
+import { PLAYBACK_HITS_WINDOW } from "../store/playback-hit-table";
 import { getViewers } from "./usage";
 import { HACKER_DISABLE_CUTOFF_DATE } from "./utils/notification";
-import { isFreeTierUser } from "./helpers";
+import {
+  FieldsMap,
+  generateRequesterId,
+  makeNextHREF,
+  parseFilters,
+  parseOrder,
+  toStringValues,
+} from "./helpers";
+import { v4 as uuid } from "uuid";
 
 const WEBHOOK_TIMEOUT = 30 * 1000;
-const MAX_ALLOWED_VIEWERS_FOR_FREE_TIER = 5;
+// Bounds for the caching of gate webhook decisions requested by the webhooks.
+const MAX_GATE_CACHE_TTL = 60 * 60;
+const MAX_GATE_CACHE_SIZE = 10000;
+const GATE_DECISION_LOG_INTERVAL = 60 * 1000;
 const app = Router();
 
-interface HitRecord {
-  timestamp: number;
+type DBAccessControlDecision = WithID<AccessControlDecision>;
+
+// Status codes returned by gate webhooks, by webhook, access key and content.
+const gateDecisionCache = new LruCache<number>(MAX_GATE_CACHE_SIZE);
+
+const gateCacheCounter = new Counter({
+  name: "livepeer_api_gate_webhook_cache_total",
+  help: "count of gate webhook decisions served from the cache or not",
+  labelNames: ["result"] as const,
+});
+
+/**
+ * Parses for how long (in seconds) the webhook response can be cached, from
+ * either the max-age of the Cache-Control header or a `ttl` field in the JSON
+ * body of the response.
+ */
+function gateResponseTtl(cacheControl: string, body: string): number {
+  if (cacheControl) {
+    if (/no-store|no-cache|private/i.test(cacheControl)) {
+      return 0;
+    }
+    const maxAge = cacheControl.match(/max-age\s*=\s*(\d+)/i);
+    if (maxAge) {
+      return parseInt(maxAge[1]);
+    }
+  }
+  try {
+    const { ttl } = JSON.parse(body);
+    return typeof ttl === "number" && ttl > 0 ? ttl : 0;
+  } catch (err) {
+    return 0;
+  }
 }
 
-const playbackHits: Record<string, HitRecord[]> = {};
+// Calls the gate webhook unless there is a cached decision for the access key
+// and content. Both allow (2xx) and deny (4xx) responses are cached for as
+// long as the webhook response asks for, but failures never are.
+async function gateWebhookStatus(
+  webhook: DBWebhook,
+  playbackPolicy: PlaybackPolicy,
+  playbackId: string,
+  accessKey: string
+): Promise<number> {
+  const key = JSON.stringify([webhook.id, accessKey, playbackId]);
+  const cached = gateDecisionCache.get(key);
+  if (cached !== undefined) {
+    gateCacheCounter.inc({ result: "hit" });
+    return cached;
+  }
+  gateCacheCounter.inc({ result: "miss" });
+
+  const { statusCode, ttl } = await fireGateWebhook(
+    webhook,
+    playbackPolicy,
+    accessKey
+  );
+  if (ttl > 0 && statusCode >= 200 && statusCode < 500) {
+    const ttlMs = Math.min(ttl, MAX_GATE_CACHE_TTL) * 1000;
+    gateDecisionCache.set(key, statusCode, ttlMs);
+  } else {
+    gateDecisionCache.delete(key);
+  }
+  return statusCode;
+}
 
 async function fireGateWebhook(
   webhook: DBWebhook,
@@ -54,17 +139,14 @@ async function fireGateWebhook(
     }),
   };
 
-  const sigHeaders = signatureHeaders(
-    params.body,
-    webhook.sharedSecret,
-    timestamp
-  );
+  const sigHeaders = webhookSignatureHeaders(params.body, webhook, timestamp);
   params.headers = { ...params.headers, ...sigHeaders };
 
   const startTime = process.hrtime();
   let resp: Response;
   let errorMessage: string;
   let statusCode: number;
+  let ttl = 0;
 
   try {
     resp = await fetchWithTimeoutAndRedirects(webhook.url, params);
@@ -88,158 +170,512 @@ async function fireGateWebhook(
       undefined
     );
     if (resp) {
-      // Dispose of the response body
-      await resp.text();
+      // Also disposes of the response body
+      const body = await resp.text();
+      ttl = gateResponseTtl(resp.headers.get("cache-control"), body);
     }
   }
-  return statusCode;
+  return { statusCode, ttl };
+}
+
+const UNKNOWN_LOCATION_ERROR =
+  "Content is geo restricted and viewer location is unknown";
+
+// Returns the reason for playback not being allowed from the viewer location,
+// if the playback policy has any geo restrictions. Restricted content is not
+// played back when the location of the viewer is unknown.
+function geoRestrictionError(
+  playbackPolicy: PlaybackPolicy,
+  geo: AccessControlGatePayload["geo"]
+): string | null {
+  const {
+    allowedCountries,
+    blockedCountries,
+    allowedContinents,
+    blockedContinents,
+  } = playbackPolicy ?? {};
+  const checks: [string[], string[], string | undefined][] = [
+    [allowedCountries, blockedCountries, geo?.country],
+    [allowedContinents, blockedContinents, geo?.continent],
+  ];
+  for (const [allowed, blocked, value] of checks) {
+    if (!allowed && !blocked) {
+      continue;
+    }
+    if (!value) {
+      return UNKNOWN_LOCATION_ERROR;
+    }
+    const code = value.toUpperCase();
+    const includes = (list: string[]) =>
+      list.some((item) => item.toUpperCase() === code);
+    if ((allowed && !includes(allowed)) || (blocked && includes(blocked))) {
+      return "Content is not available in the viewer location";
+    }
+  }
+  return null;
+}
+
+// Returns whether the playback policy has rules that depend on the viewer or
+// on the time of the request, in which case gate decisions can't be cached.
+function isUncacheablePolicy(playbackPolicy: PlaybackPolicy) {
+  const {
+    allowedCountries,
+    blockedCountries,
+    allowedContinents,
+    blockedContinents,
+    allowedOrigins,
+    availableFrom,
+    availableUntil,
+    maxConcurrentViewers,
+  } = playbackPolicy ?? {};
+  return [
+    allowedCountries,
+    blockedCountries,
+    allowedContinents,
+    blockedContinents,
+    allowedOrigins,
+    availableFrom,
+    availableUntil,
+    maxConcurrentViewers,
+  ].some((rule) => rule != null);
+}
+
+// Returns the reason for the content not being available at the given time,
+// if the playback policy has an availability window.
+export function availabilityError(
+  playbackPolicy: PlaybackPolicy,
+  now = Date.now()
+): string | null {
+  const { availableFrom, availableUntil } = playbackPolicy ?? {};
+  if (availableFrom && now < availableFrom) {
+    return `Content is not yet available, it will be available from ${new Date(
+      availableFrom
+    ).toISOString()}`;
+  }
+  if (availableUntil && now >= availableUntil) {
+    return `Content has expired, it was available until ${new Date(
+      availableUntil
+    ).toISOString()}`;
+  }
+  return null;
+}
+
+function requestOrigin({ origin, referer }: AccessControlGatePayload) {
+  if (origin && origin !== "null") {
+    return origin;
+  }
+  try {
+    return referer ? new URL(referer).origin : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+// Checks an origin against the allowed origins of a playback policy, which
+// may omit the scheme or match any subdomain with a `*.` prefix on the host.
+function isOriginAllowed(allowedOrigins: string[], origin: string) {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch (err) {
+    return false;
+  }
+  return allowedOrigins.some((allowed) => {
+    if (allowed === "*") {
+      return true;
+    }
+    const match = allowed
+      .toLowerCase()
+      .match(/^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/]+)\/?$/);
+    if (!match) {
+      return false;
+    }
+    const [, scheme, host] = match;
+    if (scheme && `${scheme}:` !== url.protocol) {
+      return false;
+    }
+    return host.startsWith("*.")
+      ? url.host.endsWith(host.substring(1))
+      : url.host === host;
+  });
 }
 
 app.use("/signing-key", signingKeyApp);
 
-app.post(
-  "/gate",
-  validatePost("access-control-gate-payload"),
-  async (req, res) => {
-    const playbackId = req.body.stream.replace(/^\w+\+/, "");
-    const content =
-      (await db.stream.getByPlaybackId(playbackId)) ||
-      (await db.asset.getByPlaybackId(playbackId));
+// Decisions recently logged, by content owner, content, viewer and outcome.
+const recentGateDecisions = new LruCache<boolean>(MAX_GATE_CACHE_SIZE);
+
+// Records the outcome of a gate request in the decision log of the content
+// owner, which is not possible if the content wasn't found. Players check the
+// gate on every segment, so a decision repeated for the same viewer is only
+// logged once per GATE_DECISION_LOG_INTERVAL.
+async function recordGateDecision(
+  req: Request,
+  decision: Partial<DBAccessControlDecision>,
+  err?: Error
+) {
+  if (!decision.userId) {
+    return;
+  }
+  try {
+    // the gate is called by the playback nodes, so identify the viewer from
+    // what they forward rather than from the address of the request
+    const requesterId = await generateRequesterId(
+      req,
+      decision.playbackId,
+      req.body.viewerIp || req.body.sessionId
+    );
+    const key = JSON.stringify([
+      decision.userId,
+      decision.playbackId,
+      requesterId,
+      err?.message,
+    ]);
+    if (recentGateDecisions.get(key)) {
+      return;
+    }
+    recentGateDecisions.set(key, true, GATE_DECISION_LOG_INTERVAL);
+
+    await db.accessControlDecision.create({
+      ...decision,
+      id: uuid(),
+      createdAt: Date.now(),
+      userId: decision.userId,
+      playbackId: decision.playbackId,
+      allowed: !err,
+      reason: err?.message,
+      requesterId,
+    });
+  } catch (e) {
+    console.log(
+      `access-control: gate: error recording decision for playbackId=${decision.playbackId} err=`,
+      e
+    );
+  }
+}
+
+// Returns whether a playback policy check should be skipped because the gate
+// request lacks the viewer information it needs, as Catalyst versions that
+// don't forward it would otherwise get playback denied for every viewer.
+function skipMissingViewerInfo(
+  req: Request,
+  content: DBStream | WithID<Asset>,
+  field: string
+) {
+  if (!req.config.gateSkipMissingViewerInfo) {
+    return false;
+  }
+  console.log(`
+    access-control: gate: WARNING: skipping playback policy check of contentId=${content.id} playbackId=${content.playbackId} as the request has no ${field}
+  `);
+  return true;
+}
 
-    res.set("Cache-Control", "max-age=120,stale-while-revalidate=600");
+// Responds whether playback of the requested content is allowed, filling in
+// the details of the decision as they get resolved.
+async function gate(
+  req: Request,
+  res: ExpressResponse,
+  decision: Partial<DBAccessControlDecision>
+) {
+  const playbackId = req.body.stream.replace(/^\w+\+/, "");
+  decision.playbackId = playbackId;
+  const stream = await db.stream.getByPlaybackId(playbackId);
+  const content = stream || (await db.asset.getByPlaybackId(playbackId));
 
-    if (!content || content.deleted) {
-      const contentLog = JSON.stringify(JSON.stringify(content));
-      console.log(`
+  res.set("Cache-Control", "max-age=120,stale-while-revalidate=600");
+
+  if (!content || content.deleted) {
+    const contentLog = JSON.stringify(JSON.stringify(content));
+    console.log(`
         access-control: gate: content not found for playbackId=${playbackId}, disallowing playback, content=${contentLog}
       `);
-      throw new NotFoundError("Content not found");
-    }
-
-    const user = await db.user.get(content.userId);
+    throw new NotFoundError("Content not found");
+  }
 
-    if (user.suspended || ("suspended" in content && content.suspended)) {
-      const contentLog = JSON.stringify(JSON.stringify(content));
-      console.log(`
+  Object.assign(decision, {
+    userId: content.userId,
+    projectId: content.projectId,
+    contentId: content.id,
+    contentType: stream ? "stream" : "asset",
+    policyType: content.playbackPolicy?.type ?? "public",
+  });
+  const user = await db.user.get(content.userId);
+
+  if (user.suspended || ("suspended" in content && content.suspended)) {
+    const contentLog = JSON.stringify(JSON.stringify(content));
+    console.log(`
         access-control: gate: disallowing access for contentId=${content.id} playbackId=${playbackId}, user=${user.id} is suspended, content=${contentLog}
       `);
-      throw new NotFoundError("Content not found");
+    throw new NotFoundError("Content not found");
+  }
+
+  if (isUncacheablePolicy(content.playbackPolicy)) {
+    res.set("Cache-Control", "no-store");
+  }
+
+  const unavailable = availabilityError(content.playbackPolicy);
+  if (unavailable) {
+    console.log(`
+        access-control: gate: disallowing playback for contentId=${content.id} playbackId=${playbackId} outside of its availability window: ${unavailable}
+      `);
+    throw new ForbiddenError(unavailable);
+  }
+
+  const { geo } = req.body as AccessControlGatePayload;
+  const geoError = geoRestrictionError(content.playbackPolicy, geo);
+  if (
+    geoError &&
+    !(
+      geoError === UNKNOWN_LOCATION_ERROR &&
+      skipMissingViewerInfo(req, content, "geo")
+    )
+  ) {
+    console.log(`
+        access-control: gate: disallowing playback for contentId=${content.id} playbackId=${playbackId} due to geo restrictions, country=${geo?.country} continent=${geo?.continent}
+      `);
+    throw new ForbiddenError(geoError);
+  }
+
+  const allowedOrigins = content.playbackPolicy?.allowedOrigins;
+  if (allowedOrigins) {
+    const origin = requestOrigin(req.body);
+    const skipped = !origin && skipMissingViewerInfo(req, content, "origin");
+    if (!skipped && (!origin || !isOriginAllowed(allowedOrigins, origin))) {
+      console.log(`
+          access-control: gate: disallowing playback for contentId=${content.id} playbackId=${playbackId} from origin=${origin}
+        `);
+      throw new ForbiddenError("Content is not allowed from this origin");
     }
+  }
 
-    const playbackPolicyType = content.playbackPolicy?.type ?? "public";
+  const playbackPolicyType = content.playbackPolicy?.type ?? "public";
 
-    if (user.createdAt < HACKER_DISABLE_CUTOFF_DATE) {
-      let limitReached = await freeTierLimitReached(content, user, req);
-      if (limitReached) {
-        throw new ForbiddenError("Free tier user reached viewership limit");
-      }
+  if (user.createdAt < HACKER_DISABLE_CUTOFF_DATE) {
+    let limitReached = await freeTierLimitReached(content, user, req);
+    if (limitReached) {
+      throw new ForbiddenError("Free tier user reached viewership limit");
     }
+  }
 
-    switch (playbackPolicyType) {
-      case "public":
-        res.status(204);
-        return res.end();
-      case "jwt":
-        if (!req.body.pub) {
-          console.log(`
+  switch (playbackPolicyType) {
+    case "public":
+      res.status(204);
+      return res.end();
+    case "jwt":
+      if (!req.body.pub) {
+        console.log(`
             access-control: gate: no pub provided for playbackId=${playbackId}, disallowing playback
           `);
-          throw new ForbiddenError(
-            "Content is gated and requires a public key"
-          );
-        }
+        throw new ForbiddenError("Content is gated and requires a public key");
+      }
 
-        const query = [];
-        query.push(sql`signing_key.data->>'publicKey' = ${req.body.pub}`);
-        const [signingKeyOutput] = await db.signingKey.find(query, {
-          limit: 2,
-        });
+      const query = [];
+      query.push(sql`signing_key.data->>'publicKey' = ${req.body.pub}`);
+      const [signingKeyOutput] = await db.signingKey.find(query, {
+        limit: 2,
+      });
+
+      if (signingKeyOutput.length == 0) {
+        // keys from JWKS are not stored, so look for them in the JWKS
+        // registered by the content owner
+        const jwksSigningKey = await findJwksSigningKey(user, req.body.pub);
+        if (jwksSigningKey) {
+          signingKeyOutput.push(jwksSigningKey);
+        }
+      }
 
-        if (signingKeyOutput.length == 0) {
-          console.log(`
+      if (signingKeyOutput.length == 0) {
+        console.log(`
             access-control: gate: content with playbackId=${playbackId} is gated but corresponding public key not found for key=${req.body.pub}, disallowing playback
           `);
-          throw new ForbiddenError(
-            "Content is gated and corresponding public key not found"
-          );
-        }
+        throw new ForbiddenError(
+          "Content is gated and corresponding public key not found"
+        );
+      }
 
-        if (signingKeyOutput.length > 1) {
-          let collisionKeys = JSON.stringify(signingKeyOutput);
-          console.log(`
+      if (signingKeyOutput.length > 1) {
+        let collisionKeys = JSON.stringify(signingKeyOutput);
+        console.log(`
             access-control: gate: content contentId=${content.id} with playbackId=${playbackId} is gated but multiple (${signingKeyOutput.length}) public keys found for key=${req.body.pub}, disallowing playback, colliding keys=${collisionKeys}
           `);
-          throw new BadRequestError(
-            "Multiple signing keys found for the same public key."
-          );
-        }
+        throw new BadRequestError(
+          "Multiple signing keys found for the same public key."
+        );
+      }
 
-        const signingKey = signingKeyOutput[0];
+      const signingKey = signingKeyOutput[0];
+      decision.signingKeyId = signingKey.id;
 
-        if (signingKey.userId !== content.userId) {
-          console.log(`
+      if (signingKey.userId !== content.userId) {
+        console.log(`
             access-control: gate: disallowing playback for contentId=${content.id} with playbackId=${playbackId} the content and the public key pub=${req.body.pub} do not share the same owner, signingKeyUserId=${signingKey.userId}, contentUserId=${content.userId}
           `);
-          throw new NotFoundError("Content not found");
-        }
+        throw new NotFoundError("Content not found");
+      }
 
-        if (signingKey.disabled || signingKey.deleted) {
-          const signingKeyLog = JSON.stringify(JSON.stringify(signingKey));
-          console.log(`
+      if (signingKey.disabled || signingKey.deleted) {
+        const signingKeyLog = JSON.stringify(JSON.stringify(signingKey));
+        console.log(`
             access-control: gate: disallowing playback for contentId=${content.id} with playbackId=${playbackId} the public key pub=${signingKey.id} is disabled or deleted, signingKey=${signingKeyLog}
           `);
-          throw new ForbiddenError("The public key is disabled or deleted");
-        }
+        throw new ForbiddenError("The public key is disabled or deleted");
+      }
 
-        tracking.recordSigningKeyValidation(signingKey.id);
-        res.status(204);
-        return res.end();
-      case "webhook":
-        if (!req.body.accessKey || req.body.type !== "accessKey") {
-          throw new ForbiddenError(
-            "Content is gated and requires an access key"
-          );
-        }
-        const webhook = await db.webhook.get(content.playbackPolicy.webhookId);
-        if (!webhook) {
-          console.log(`
+      const scopeError = signingKeyScopeError(signingKey, content);
+      if (scopeError) {
+        console.log(`
+            access-control: gate: disallowing playback for contentId=${content.id} with playbackId=${playbackId} the public key pub=${signingKey.id} is expired or out of scope: ${scopeError}
+          `);
+        throw new ForbiddenError(scopeError);
+      }
+
+      tracking.recordSigningKeyValidation(signingKey.id);
+      await checkConcurrentViewers(
+        req,
+        content,
+        "viewerId",
+        req.body.viewerId,
+        req.body.sessionId
+      );
+      res.status(204);
+      return res.end();
+    case "webhook":
+      if (!req.body.accessKey || req.body.type !== "accessKey") {
+        throw new ForbiddenError("Content is gated and requires an access key");
+      }
+      decision.webhookId = content.playbackPolicy.webhookId;
+      const webhook = await db.webhook.get(content.playbackPolicy.webhookId);
+      if (!webhook) {
+        console.log(`
             access-control: gate: content with playbackId=${playbackId} is gated but corresponding webhook not found for webhookId=${content.playbackPolicy.webhookId}, disallowing playback
           `);
-          throw new InternalServerError(
-            "Content is gated and corresponding webhook not found"
-          );
-        }
-        const statusCode = await fireGateWebhook(
-          webhook,
-          content.playbackPolicy,
-          req.body.accessKey
+        throw new InternalServerError(
+          "Content is gated and corresponding webhook not found"
         );
-        if (statusCode >= 200 && statusCode < 300) {
-          res.status(204);
-          return res.end();
-        } else if (statusCode === 0) {
-          console.log(`
+      }
+      const statusCode = await gateWebhookStatus(
+        webhook,
+        content.playbackPolicy,
+        content.playbackId,
+        req.body.accessKey
+      );
+      if (statusCode >= 200 && statusCode < 300) {
+        await checkConcurrentViewers(
+          req,
+          content,
+          "accessKey",
+          req.body.accessKey,
+          req.body.sessionId
+        );
+        res.status(204);
+        return res.end();
+      } else if (statusCode === 0) {
+        console.log(`
             access-control: gate: content with playbackId=${playbackId} is gated but webhook=${webhook.id} failed, disallowing playback
           `);
-          throw new BadGatewayError(
-            "Content is gated and corresponding webhook failed"
-          );
-        } else {
-          console.log(`
+        throw new BadGatewayError(
+          "Content is gated and corresponding webhook failed"
+        );
+      } else {
+        console.log(`
             access-control: gate: content with playbackId=${playbackId} is gated but webhook=${webhook.id} returned status code ${statusCode}, disallowing playback
           `);
-          throw new BadGatewayError(
-            "Content is gated and corresponding webhook failed"
-          );
-        }
-      default:
-        throw new BadRequestError(
-          `unknown playbackPolicy type: ${playbackPolicyType}`
+        throw new BadGatewayError(
+          "Content is gated and corresponding webhook failed"
         );
+      }
+    default:
+      throw new BadRequestError(
+        `unknown playbackPolicy type: ${playbackPolicyType}`
+      );
+  }
+}
+
+app.post(
+  "/gate",
+  validatePost("access-control-gate-payload"),
+  async (req, res) => {
+    const decision: Partial<DBAccessControlDecision> = {};
+    try {
+      await gate(req, res, decision);
+    } catch (err) {
+      await recordGateDecision(req, decision, err);
+      throw err;
     }
+    await recordGateDecision(req, decision);
   }
 );
 
+const decisionFieldsMap: FieldsMap = {
+  id: `access_control_decision.ID`,
+  playbackId: `access_control_decision.data->>'playbackId'`,
+  contentId: `access_control_decision.data->>'contentId'`,
+  contentType: `access_control_decision.data->>'contentType'`,
+  policyType: `access_control_decision.data->>'policyType'`,
+  signingKeyId: `access_control_decision.data->>'signingKeyId'`,
+  webhookId: `access_control_decision.data->>'webhookId'`,
+  allowed: { val: `access_control_decision.data->'allowed'`, type: "boolean" },
+  reason: `access_control_decision.data->>'reason'`,
+  requesterId: `access_control_decision.data->>'requesterId'`,
+  userId: `access_control_decision.data->>'userId'`,
+  createdAt: {
+    val: `access_control_decision.data->'createdAt'`,
+    type: "int",
+  },
+};
+
+app.get("/decision", authorizer({}), async (req, res) => {
+  let { limit, cursor, playbackId, allUsers, order, filters, count } =
+    toStringValues(req.query);
+  if (isNaN(parseInt(limit))) {
+    limit = undefined;
+  }
+  if (!order) {
+    order = "createdAt-true";
+  }
+
+  const query = parseFilters(decisionFieldsMap, filters);
+  if (!req.user.admin || !allUsers || allUsers === "false") {
+    query.push(sql`access_control_decision.data->>'userId' = ${req.user.id}`);
+  }
+  if (req.project) {
+    query.push(
+      sql`access_control_decision.data->>'projectId' = ${req.project.id}`
+    );
+  }
+  if (playbackId) {
+    query.push(
+      sql`access_control_decision.data->>'playbackId' = ${playbackId}`
+    );
+  }
+
+  let fields =
+    " access_control_decision.id as id, access_control_decision.data as data";
+  if (count) {
+    fields = fields + ", count(*) OVER() AS count";
+  }
+  const [output, newCursor] = await db.accessControlDecision.find(query, {
+    limit,
+    cursor,
+    fields,
+    from: `access_control_decision`,
+    order: parseOrder(decisionFieldsMap, order),
+    process: ({ data, count: c }) => {
+      if (count) {
+        res.set("X-Total-Count", c);
+      }
+      return { ...data };
+    },
+  });
+
+  res.status(200);
+  if (output.length > 0 && newCursor) {
+    res.links({ next: makeNextHREF(req, newCursor) });
+  }
+  return res.json(output);
+});
+
 app.get("/public-key", async (req, res) => {
   const { catalystBaseUrl } = req.config;
 
@@ -270,37 +706,66 @@ app.get("/public-key", async (req, res) => {
     });
 });
 
+// Denies playback sessions exceeding the maximum concurrent viewers of the
+// playback policy for the given viewer key, like an access key or the viewer ID
+// of a JWT. Without a session ID the repeated checks of a viewer can't be told
+// apart from new viewers.
+async function checkConcurrentViewers(
+  req: Request,
+  content: DBStream | WithID<Asset>,
+  keyType: "viewerId" | "accessKey",
+  key: string,
+  sessionId?: string
+) {
+  const maxViewers = content.playbackPolicy?.maxConcurrentViewers;
+  if (!maxViewers) {
+    return;
+  }
+  const missing = !key ? keyType : !sessionId ? "sessionId" : null;
+  if (missing && skipMissingViewerInfo(req, content, missing)) {
+    return;
+  }
+  if (!key) {
+    throw new ForbiddenError(
+      `Content has a concurrent viewers limit and requires a ${keyType}`
+    );
+  }
+
+  const hitsKey = `viewers:${content.userId}:${keyType}:${key}`;
+  const recorded = await db.playbackHit.recordWithinLimit(
+    hitsKey,
+    maxViewers,
+    Date.now() - PLAYBACK_HITS_WINDOW,
+    sessionId
+  );
+  if (!recorded) {
+    console.log(`
+      access-control: gate: disallowing playback for contentId=${content.id} playbackId=${content.playbackId}, ${keyType} reached the limit of ${maxViewers} concurrent viewers
+    `);
+    throw new ForbiddenError("Maximum concurrent viewers reached");
+  }
+}
+
+// Registers a hit for the content and returns whether its owner's plan limit
+// of viewers has been exceeded. The limits are configured by plan with the
+// playback-viewer-limits flag.
 async function freeTierLimitReached(
   content: DBStream | WithID<Asset>,
   user: User,
   req: Request
 ): Promise<boolean> {
-  if (!isFreeTierUser(user)) {
+  const maxViewers = req.config.playbackViewerLimits?.[user.stripeProductId];
+  if (!maxViewers) {
     return false;
   }
 
-  // Register a hit for the given playbackId
-  const now = Date.now();
-  const playbackId = content.playbackId;
-
-  if (!playbackHits[playbackId]) {
-    playbackHits[playbackId] = [];
-  }
-
-  // Remove hits that are older than three minutes
-  playbackHits[playbackId] = playbackHits[playbackId].filter(
-    (hit) => now - hit.timestamp < 60 * 3 * 1000
+  const key = `plan:${content.playbackId}`;
+  await db.playbackHit.record(key);
+  const hits = await db.playbackHit.listActive(
+    key,
+    Date.now() - PLAYBACK_HITS_WINDOW
   );
-
-  // Add a new hit record
-  playbackHits[playbackId].push({ timestamp: now });
-
-  // Check if the number of hits in the last minute exceeds the threshold
-  if (playbackHits[playbackId].length > MAX_ALLOWED_VIEWERS_FOR_FREE_TIER) {
-    return true;
-  } else {
-    return false;
-  }
+  return hits.length > maxViewers;
 }
 
 export default app;
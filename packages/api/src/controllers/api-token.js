@@ -9,7 +9,9 @@ import { db } from "../store";
 
 const app = Router();
 
-app.use(authorizer({ noApiToken: true }));
+// API keys grant full access to the account, including on behalf of any
+// organization it belongs to, so only organization admins can see or use them.
+app.use(authorizer({ noApiToken: true, memberRole: "admin" }));
 
 app.get("/:id", async (req, res) => {
   const { id } = req.params;
@@ -48,6 +50,7 @@ const fieldsMap = {
   name: { val: `api_token.data->>'name'`, type: "full-text" },
   lastSeen: `api_token.data->'lastSeen'`,
   userId: `api_token.data->>'userId'`,
+  projectId: `api_token.data->>'projectId'`,
   "user.email": { val: `users.data->>'email'`, type: "full-text" },
 };
 
@@ -105,6 +108,9 @@ app.get("/", async (req, res) => {
 
   const query = parseFilters(fieldsMap, filters);
   query.push(sql`api_token.data->>'userId' = ${userId}`);
+  if (req.project) {
+    query.push(sql`api_token.data->>'projectId' = ${req.project.id}`);
+  }
 
   let fields = " api_token.id as id, api_token.data as data";
   if (count) {
@@ -152,13 +158,34 @@ app.post("/", validatePost("api-token"), async (req, res) => {
       return res.json({ errors: [`Bad access rules: ${err}`] });
     }
   }
+  if (req.body.expiresAt && req.body.expiresAt <= Date.now()) {
+    res.status(422);
+    return res.json({ errors: ["expiresAt must be in the future"] });
+  }
+  const projectId = req.body.projectId ?? req.project?.id;
+  if (req.project && projectId !== req.project.id) {
+    res.status(403);
+    return res.json({
+      errors: [`tokens can only be bound to project ${req.project.id}`],
+    });
+  }
+  if (projectId) {
+    const project = await db.project.get(projectId);
+    if (!project || project.userId !== userId) {
+      res.status(422);
+      return res.json({ errors: [`project ${projectId} not found`] });
+    }
+  }
   await req.store.create({
     id: id,
     userId: userId,
+    projectId,
+    createdByUserId: req.member?.userId,
     kind: "api-token",
     name: req.body.name,
     access: req.body.access,
     createdAt: Date.now(),
+    expiresAt: req.body.expiresAt,
   });
   const apiToken = await req.store.get(`api-token/${id}`);
 
@@ -171,4 +198,64 @@ app.post("/", validatePost("api-token"), async (req, res) => {
   }
 });
 
+// Issues a replacement for the token with the same access, keeping the old
+// one valid for a grace period so that it can be swapped without downtime.
+app.post(
+  "/:id/rotate",
+  validatePost("api-token-rotate-payload"),
+  async (req, res) => {
+    const { id } = req.params;
+    const apiToken = await req.store.get(`api-token/${id}`);
+    if (!apiToken || (!req.user.admin && req.user.id !== apiToken.userId)) {
+      res.status(404);
+      return res.json({ errors: ["not found"] });
+    }
+    const now = Date.now();
+    if (apiToken.rotatedTo) {
+      res.status(409);
+      return res.json({
+        errors: [`token already rotated to ${apiToken.rotatedTo}`],
+      });
+    }
+    if (apiToken.expiresAt && apiToken.expiresAt <= now) {
+      res.status(422);
+      return res.json({ errors: ["expired tokens cannot be rotated"] });
+    }
+
+    const { gracePeriod = 24 * 60 * 60 } = req.body;
+    let { expiresAt } = req.body;
+    if (!expiresAt && apiToken.expiresAt && apiToken.createdAt) {
+      // keep the same lifetime of the rotated token by default
+      expiresAt = now + (apiToken.expiresAt - apiToken.createdAt);
+    }
+    if (expiresAt && expiresAt <= now) {
+      res.status(422);
+      return res.json({ errors: ["expiresAt must be in the future"] });
+    }
+
+    const newId = uuid();
+    await req.store.create({
+      id: newId,
+      userId: apiToken.userId,
+      projectId: apiToken.projectId,
+      createdByUserId: req.member?.userId,
+      kind: "api-token",
+      name: apiToken.name,
+      access: apiToken.access,
+      createdAt: now,
+      expiresAt,
+    });
+    const graceEnd = now + gracePeriod * 1000;
+    await db.apiToken.update(id, {
+      rotatedTo: newId,
+      expiresAt: apiToken.expiresAt
+        ? Math.min(apiToken.expiresAt, graceEnd)
+        : graceEnd,
+    });
+
+    res.status(201);
+    res.json(await req.store.get(`api-token/${newId}`));
+  }
+);
+
 export default app;
@@ -1,6 +1,7 @@
 import serverPromise from "../test-server";
 import { TestClient, clearDatabase } from "../test-helpers";
 import { v4 as uuid } from "uuid";
+import { db } from "../store";
 
 let server;
 let mockUser;
@@ -123,6 +124,72 @@ describe("controllers/api-token", () => {
       expect(apiToken.id).toBeUndefined();
     });
 
+    describe("expiry and rotation", () => {
+      const getMe = (apiKey) =>
+        new TestClient({ server, apiKey }).get("/user/me");
+
+      it("should not accept expired tokens", async () => {
+        let res = await client.post("/api-token", {
+          expiresAt: Date.now() - 1000,
+        });
+        expect(res.status).toBe(422);
+
+        res = await client.post("/api-token", {
+          expiresAt: Date.now() + 60 * 1000,
+        });
+        expect(res.status).toBe(201);
+        const apiToken = await res.json();
+        expect((await getMe(apiToken.id)).status).toBe(200);
+
+        await db.apiToken.update(apiToken.id, { expiresAt: Date.now() });
+        res = await getMe(apiToken.id);
+        expect(res.status).toBe(401);
+        const { errors, code } = await res.json();
+        expect(errors[0]).toContain("expired");
+        expect(code).toEqual("token_expired");
+      });
+
+      it("should rotate a token keeping the old one valid for a grace period", async () => {
+        const lifetime = 90 * 24 * 60 * 60 * 1000;
+        let res = await client.post("/api-token", {
+          name: "rotated",
+          expiresAt: Date.now() + lifetime,
+        });
+        const oldToken = await res.json();
+
+        const preRotationTime = Date.now();
+        res = await client.post(`/api-token/${oldToken.id}/rotate`, {
+          gracePeriod: 60,
+        });
+        expect(res.status).toBe(201);
+        const newToken = await res.json();
+        expect(newToken).toMatchObject({
+          name: "rotated",
+          userId: oldToken.userId,
+        });
+        expect(newToken.id).not.toEqual(oldToken.id);
+        expect(newToken.expiresAt).toBeGreaterThanOrEqual(
+          preRotationTime + lifetime
+        );
+
+        res = await client.get(`/api-token/${oldToken.id}`);
+        const rotated = await res.json();
+        expect(rotated.rotatedTo).toEqual(newToken.id);
+        expect(rotated.expiresAt).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+        expect((await getMe(oldToken.id)).status).toBe(200);
+        expect((await getMe(newToken.id)).status).toBe(200);
+
+        res = await client.post(`/api-token/${oldToken.id}/rotate`);
+        expect(res.status).toBe(409);
+
+        res = await client.post(`/api-token/${newToken.id}/rotate`, {
+          gracePeriod: 0,
+        });
+        expect(res.status).toBe(201);
+        expect((await getMe(newToken.id)).status).toBe(401);
+      });
+    });
+
     describe("access rules", () => {
       const testError = async (expectErr, rules) => {
         const res = await client.post("/api-token", { access: { rules } });
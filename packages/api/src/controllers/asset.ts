@@ -1,5 +1,6 @@
 import { authorizer } from "../middleware";
 import { validatePost } from "../middleware";
+import { idempotent } from "../middleware";
 import { Request, RequestHandler, Router, Response } from "express";
 import jwt, { JwtPayload } from "jsonwebtoken";
 import { v4 as uuid } from "uuid";
@@ -22,6 +23,7 @@ import {
   reqUseReplica,
   isValidBase64,
   mapInputCreatorId,
+  isInProject,
 } from "./helpers";
 import { db } from "../store";
 import sql from "sql-template-strings";
@@ -268,6 +270,15 @@ async function validateAssetPlaybackPolicy(
       };
     }
   }
+  if (
+    playbackPolicy?.availableFrom &&
+    playbackPolicy?.availableUntil &&
+    playbackPolicy.availableFrom >= playbackPolicy.availableUntil
+  ) {
+    throw new BadRequestError(
+      `playbackPolicy.availableFrom must be before availableUntil`
+    );
+  }
   if (playbackPolicy?.type === "webhook") {
     let webhook = await db.webhook.get(playbackPolicy.webhookId);
     if (!webhook || webhook.deleted) {
@@ -679,6 +690,9 @@ app.get("/", authorizer({}), async (req, res) => {
     });
   } else {
     query.push(sql`asset.data->>'userId' = ${req.user.id}`);
+    if (req.project) {
+      query.push(sql`asset.data->>'projectId' = ${req.project.id}`);
+    }
 
     let fields = " asset.id as id, asset.data as data";
     if (count) {
@@ -714,7 +728,10 @@ app.get("/:id", authorizer({}), async (req, res) => {
     throw new NotFoundError(`Asset not found`);
   }
 
-  if (req.user.admin !== true && req.user.id !== asset.userId) {
+  if (
+    req.user.admin !== true &&
+    (req.user.id !== asset.userId || !isInProject(req, asset))
+  ) {
     throw new ForbiddenError(
       "user can only request information on their own assets"
     );
@@ -738,7 +755,7 @@ app.post(
       res.status(412);
       return res.json({ errors: ["asset is not ready to be exported"] });
     }
-    if (req.user.id !== asset.userId) {
+    if (req.user.id !== asset.userId || !isInProject(req, asset)) {
       throw new ForbiddenError(`User can only export their own assets`);
     }
 
@@ -801,7 +818,7 @@ const uploadWithUrlHandler: RequestHandler = async (req, res) => {
     { type: "url", url, encryption: assetEncryptionWithoutKey(encryption) }
   );
   const dupAsset = await db.asset.findDuplicateUrlUpload(url, req.user.id);
-  if (dupAsset) {
+  if (dupAsset && isInProject(req, dupAsset)) {
     const [task] = await db.task.find({ outputAssetId: dupAsset.id });
     if (!task.length) {
       console.error("Found asset with no task", dupAsset);
@@ -816,7 +833,14 @@ const uploadWithUrlHandler: RequestHandler = async (req, res) => {
 
   await ensureQueueCapacity(req.config, req.user.id);
 
-  const asset = await createAsset(newAsset, req.queue);
+  const asset = await createAsset(
+    {
+      ...newAsset,
+      projectId: req.project?.id,
+      createdByUserId: req.member?.userId,
+    },
+    req.queue
+  );
   const task = await req.taskScheduler.createAndScheduleTask(
     "upload",
     {
@@ -840,6 +864,7 @@ app.post(
   "/upload/url",
   authorizer({}),
   validatePost("new-asset-payload"),
+  idempotent(),
   uploadWithUrlHandler
 );
 // TODO: Remove this at some point. Registered only for backward compatibility.
@@ -854,6 +879,7 @@ app.post(
   "/request-upload",
   authorizer({}),
   validatePost("new-asset-payload"),
+  idempotent(),
   async (req, res) => {
     const id = uuid();
     let playbackId = await generateUniquePlaybackId(id);
@@ -905,7 +931,14 @@ app.post(
     // as direct uploads will also need a lot of effort from callers to upload
     // the files, so the risk is much smaller.
     await ensureQueueCapacity(req.config, req.user.id);
-    asset = await createAsset(asset, req.queue);
+    asset = await createAsset(
+      {
+        ...asset,
+        projectId: req.project?.id,
+        createdByUserId: req.member?.userId,
+      },
+      req.queue
+    );
 
     const task = await req.taskScheduler.createTask(
       "upload",
@@ -1091,7 +1124,10 @@ app.delete("/:id", authorizer({}), async (req, res) => {
   if (!asset) {
     throw new NotFoundError(`Asset not found`);
   }
-  if (!req.user.admin && req.user.id !== asset.userId) {
+  if (
+    !req.user.admin &&
+    (req.user.id !== asset.userId || !isInProject(req, asset))
+  ) {
     throw new ForbiddenError(`users may only delete their own assets`);
   }
   await req.taskScheduler.deleteAsset(asset);
@@ -1153,7 +1189,11 @@ app.patch(
     // update a specific asset
     const { id } = req.params;
     const asset = await db.asset.get(id);
-    if (!asset || (asset.userId !== req.user.id && !req.user.admin)) {
+    if (
+      !asset ||
+      ((asset.userId !== req.user.id || !isInProject(req, asset)) &&
+        !req.user.admin)
+    ) {
       throw new NotFoundError(`asset not found`);
     } else if (asset.status.phase !== "ready") {
       throw new UnprocessableEntityError(`asset is not ready`);
@@ -1212,7 +1252,10 @@ app.post("/:id/retry", authorizer({}), async (req, res) => {
   const { id } = req.params;
   const asset = await db.asset.get(id);
 
-  if (!req.user.admin && asset.userId !== req.user.id) {
+  if (
+    !req.user.admin &&
+    (asset.userId !== req.user.id || !isInProject(req, asset))
+  ) {
     throw new ForbiddenError(`users may only retry their own assets`);
   }
 
@@ -1,4 +1,4 @@
-import { validatePost } from "../middleware";
+import { idempotent, validatePost } from "../middleware";
 import { Request, Response, Router } from "express";
 import _ from "lodash";
 import { db } from "../store";
@@ -59,7 +59,7 @@ app.use(
   })
 );
 
-app.post("/", validatePost("clip-payload"), async (req, res) => {
+app.post("/", validatePost("clip-payload"), idempotent(), async (req, res) => {
   const playbackId = req.body.playbackId;
   const clippingUser = req.user;
 
@@ -169,7 +169,15 @@ app.post("/", validatePost("clip-payload"), async (req, res) => {
     }
   );
 
-  asset = await createAsset(asset, req.queue);
+  // clips belong to the same project as the content they are cut from
+  asset = await createAsset(
+    {
+      ...asset,
+      projectId: content.projectId,
+      createdByUserId: req.member?.userId,
+    },
+    req.queue
+  );
 
   const task = await req.taskScheduler.createAndScheduleTask(
     "clip",
@@ -250,6 +258,9 @@ export const getClips = async (
   let newCursor: string;
 
   query.push(sql`asset.data->>'userId' = ${req.user.id}`);
+  if (req.project) {
+    query.push(sql`asset.data->>'projectId' = ${req.project.id}`);
+  }
 
   if (!content) {
     throw new NotFoundError("Content not found");
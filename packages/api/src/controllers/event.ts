@@ -0,0 +1,340 @@
+import { Request, Response, Router } from "express";
+import sql from "sql-template-strings";
+
+import { authorizer } from "../middleware";
+import { db } from "../store";
+import { NotFoundError } from "../store/errors";
+import { DBWebhookEvent } from "../store/webhook-event-table";
+import {
+  isInProject,
+  makeNextHREF,
+  parseFilters,
+  parseOrder,
+  FieldsMap,
+  toStringValues,
+} from "./helpers";
+
+// Interval at which new events are polled from the DB for SSE clients.
+const STREAM_POLL_INTERVAL = 1000;
+// Events only become visible once their insert commits, which may be a little
+// after the time they were recorded at, so every poll also looks back this far
+// for events that haven't been sent yet.
+const STREAM_LOOKBACK = 10 * 1000;
+// Comment lines sent periodically to keep idle connections open.
+const STREAM_HEARTBEAT_INTERVAL = 15 * 1000;
+const STREAM_BATCH_SIZE = 100;
+const STREAM_POLL_BATCH_SIZE = 1000;
+
+const app = Router();
+
+const fieldsMap: FieldsMap = {
+  id: `webhook_event.ID`,
+  event: `webhook_event.data->>'event'`,
+  userId: `webhook_event.data->>'userId'`,
+  streamId: `webhook_event.data->>'streamId'`,
+  sessionId: `webhook_event.data->>'sessionId'`,
+  assetId: `webhook_event.data->>'assetId'`,
+  creatorId: `webhook_event.data->>'creatorId'`,
+  taskType: `webhook_event.data->>'taskType'`,
+  createdAt: { val: `webhook_event.data->'createdAt'`, type: "int" },
+};
+
+app.get("/", authorizer({}), async (req, res) => {
+  let { limit, cursor, event, allUsers, order, filters, count } =
+    toStringValues(req.query);
+  if (isNaN(parseInt(limit))) {
+    limit = undefined;
+  }
+  if (!order) {
+    order = "createdAt-true";
+  }
+
+  const query = parseFilters(fieldsMap, filters);
+  if (!req.user.admin || !allUsers || allUsers === "false") {
+    query.push(sql`webhook_event.data->>'userId' = ${req.user.id}`);
+  }
+  if (req.project) {
+    query.push(sql`webhook_event.data->>'projectId' = ${req.project.id}`);
+  }
+  if (event) {
+    query.push(sql`webhook_event.data->>'event' = ${event}`);
+  }
+
+  let fields = " webhook_event.id as id, webhook_event.data as data";
+  if (count) {
+    fields = fields + ", count(*) OVER() AS count";
+  }
+  const [output, newCursor] = await db.webhookEvent.find(query, {
+    limit,
+    cursor,
+    fields,
+    from: `webhook_event`,
+    order: parseOrder(fieldsMap, order),
+    process: ({ data, count: c }) => {
+      if (count) {
+        res.set("X-Total-Count", c);
+      }
+      return { ...data };
+    },
+  });
+
+  res.status(200);
+  if (output.length > 0 && newCursor) {
+    res.links({ next: makeNextHREF(req, newCursor) });
+  }
+  return res.json(output);
+});
+
+function parseEventTypes(val: string | string[]) {
+  if (!val) {
+    return null;
+  }
+  const types = (Array.isArray(val) ? val : [val])
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return types.length ? types : null;
+}
+
+function writeEvent(res: Response, event: DBWebhookEvent) {
+  res.write(`id: ${event.id}\n`);
+  res.write(`event: ${event.event}\n`);
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+type EventSubscriber = {
+  userId: string;
+  projectId?: string;
+  types: string[] | null;
+  send: (event: DBWebhookEvent) => void;
+};
+
+/**
+ * Polls the DB for the events of all the SSE clients of the instance at once.
+ * Events are paged by the time they were recorded at instead of their own
+ * timestamp, which can be much older for delayed or backlogged events.
+ */
+class EventStreamPoller {
+  private subscribers = new Set<EventSubscriber>();
+  // events already sent, by id, mapped to the time they were recorded at
+  private sent = new Map<string, number>();
+  private newest = 0;
+  private timeout: NodeJS.Timeout = null;
+  private polling = false;
+
+  subscribe(subscriber: EventSubscriber) {
+    this.subscribers.add(subscriber);
+    if (!this.timeout && !this.polling) {
+      this.newest = Date.now();
+      this.sent.clear();
+      this.schedule();
+    }
+  }
+
+  unsubscribe(subscriber: EventSubscriber) {
+    this.subscribers.delete(subscriber);
+    if (!this.subscribers.size) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+
+  private schedule() {
+    this.timeout = setTimeout(async () => {
+      this.timeout = null;
+      this.polling = true;
+      try {
+        await this.poll();
+      } catch (err) {
+        console.log(`Error polling events for SSE clients err=`, err);
+      } finally {
+        this.polling = false;
+      }
+      if (this.subscribers.size && !this.timeout) {
+        this.schedule();
+      }
+    }, STREAM_POLL_INTERVAL);
+  }
+
+  private async poll() {
+    const since = this.newest - STREAM_LOOKBACK;
+    for (const [id, recordedAt] of this.sent) {
+      if (recordedAt < since) {
+        this.sent.delete(id);
+      }
+    }
+
+    const userIds = [...new Set([...this.subscribers].map((s) => s.userId))];
+    const query = [
+      sql`data->>'userId' = ANY(${userIds})`,
+      sql`(data->>'recordedAt')::bigint >= ${since}`,
+    ];
+    if (this.sent.size) {
+      query.push(sql`NOT (id = ANY(${[...this.sent.keys()]}))`);
+    }
+    const [events] = await db.webhookEvent.find(query, {
+      limit: STREAM_POLL_BATCH_SIZE,
+      order: `data->'recordedAt' ASC, id ASC`,
+    });
+
+    for (const event of events) {
+      this.sent.set(event.id, event.recordedAt);
+      this.newest = Math.max(this.newest, event.recordedAt);
+      for (const { userId, projectId, types, send } of this.subscribers) {
+        if (
+          event.userId === userId &&
+          (!projectId || event.projectId === projectId) &&
+          (!types || types.includes(event.event))
+        ) {
+          send(event);
+        }
+      }
+    }
+  }
+}
+
+const eventStreamPoller = new EventStreamPoller();
+
+/**
+ * Sends the events of the user recorded after the given one, in the order
+ * they were recorded in. Only the events of the project are sent if one is
+ * given.
+ *
+ * @returns the IDs of the events sent.
+ */
+async function sendEventsAfter(
+  res: Response,
+  last: DBWebhookEvent,
+  projectId: string | undefined,
+  types: string[] | null,
+  isClosed: () => boolean
+) {
+  const sentIds = new Set<string>();
+  let after = { recordedAt: last.recordedAt ?? last.createdAt, id: last.id };
+  while (!isClosed()) {
+    const query = [
+      sql`data->>'userId' = ${last.userId}`,
+      sql`((data->>'recordedAt')::bigint, id) > (${after.recordedAt}, ${after.id})`,
+    ];
+    if (projectId) {
+      query.push(sql`data->>'projectId' = ${projectId}`);
+    }
+    if (types) {
+      query.push(sql`data->>'event' = ANY(${types})`);
+    }
+    const [events] = await db.webhookEvent.find(query, {
+      limit: STREAM_BATCH_SIZE,
+      order: `data->'recordedAt' ASC, id ASC`,
+    });
+    for (const event of events) {
+      writeEvent(res, event);
+      sentIds.add(event.id);
+    }
+    if (events.length < STREAM_BATCH_SIZE) {
+      break;
+    }
+    const { recordedAt, id } = events[events.length - 1];
+    after = { recordedAt, id };
+  }
+  return sentIds;
+}
+
+/**
+ * Streams the events of the user as they get recorded, resuming after the
+ * event in the Last-Event-ID header if provided. Events are polled from the
+ * DB so clients receive them regardless of which instance processed them.
+ */
+async function streamEvents(req: Request, res: Response) {
+  const userId = req.user.id;
+  const projectId = req.project?.id;
+  const types = parseEventTypes(req.query.event as string | string[]);
+  const lastEventId =
+    req.header("Last-Event-ID") || (req.query.lastEventId as string);
+
+  let last: DBWebhookEvent;
+  if (lastEventId) {
+    last = await db.webhookEvent.get(lastEventId);
+    if (last?.userId !== userId || !isInProject(req, last)) {
+      last = null;
+    }
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(`retry: ${STREAM_POLL_INTERVAL}\n\n`);
+
+  let closed = false;
+  let lastWrite = Date.now();
+  // live events are held back until the missed ones have been sent
+  let pending: DBWebhookEvent[] = [];
+  const subscriber: EventSubscriber = {
+    userId,
+    projectId,
+    types,
+    send: (event) => {
+      if (pending) {
+        pending.push(event);
+        return;
+      }
+      writeEvent(res, event);
+      lastWrite = Date.now();
+    },
+  };
+  const heartbeat = setInterval(() => {
+    if (Date.now() - lastWrite >= STREAM_HEARTBEAT_INTERVAL) {
+      res.write(`: heartbeat\n\n`);
+      lastWrite = Date.now();
+    }
+  }, STREAM_HEARTBEAT_INTERVAL);
+  req.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+    eventStreamPoller.unsubscribe(subscriber);
+  });
+  eventStreamPoller.subscribe(subscriber);
+
+  let sentIds = new Set<string>();
+  if (last) {
+    try {
+      sentIds = await sendEventsAfter(
+        res,
+        last,
+        projectId,
+        types,
+        () => closed
+      );
+    } catch (err) {
+      console.log(`Error sending missed events userId=${userId} err=`, err);
+    }
+  }
+  for (const event of pending) {
+    if (!sentIds.has(event.id)) {
+      writeEvent(res, event);
+    }
+  }
+  pending = null;
+  lastWrite = Date.now();
+}
+
+app.get("/stream", authorizer({}), streamEvents);
+
+app.get("/:id", authorizer({}), async (req, res) => {
+  const event = await db.webhookEvent.get(req.params.id);
+  if (
+    !event ||
+    ((event.userId !== req.user.id || !isInProject(req, event)) &&
+      !req.user.admin)
+  ) {
+    throw new NotFoundError(`event not found`);
+  }
+
+  res.status(200);
+  res.json(event);
+});
+
+export default app;
@@ -245,16 +245,17 @@ export async function getS3PresignedUrl(os: ObjectStore, objectKey: string) {
   return getSignedUrl(s3, putCommand, { expiresIn });
 }
 
-export async function generateRequesterId(req: Request, playbackId: string) {
-  const ip =
-    req.headers["cf-connecting-ip"] ||
+export async function generateRequesterId(
+  req: Request,
+  playbackId: string,
+  ip: string | string[] = req.headers["cf-connecting-ip"] ||
     req.headers["true-client-ip"] ||
-    req.headers["x-forwarded-for"];
-
+    req.headers["x-forwarded-for"]
+) {
   let requesterId: string;
   if (!ip) {
     console.log(`
-        unable to determine ip of requester for user=${req.user.id} when clipping playbackId=${playbackId}
+        unable to determine ip of requester for user=${req.user?.id} playbackId=${playbackId}
     `);
     requesterId = `UNKNOWN-${playbackId}`;
   } else {
@@ -587,13 +588,6 @@ export function pathJoin(...items: string[]) {
   return items.reduce(pathJoin2, "");
 }
 
-export function isFreeTierUser(user: User) {
-  return (
-    user.stripeProductId === "hacker_1" ||
-    user.stripeProductId === "prod_O9XuIjn7EqYRVW"
-  );
-}
-
 export function trimPathPrefix(prefix: string, path: string) {
   const prefixIdx = path.indexOf(prefix);
   if (prefix[prefix.length - 1] !== "/") {
@@ -674,3 +668,11 @@ export function mapInputCreatorId(inputId: InputCreatorId): CreatorId {
     ? { type: "unverified", value: inputId }
     : inputId;
 }
+
+/**
+ * Returns whether the object belongs to the project the request is scoped to,
+ * if any. Objects created before projects existed belong to no project.
+ */
+export function isInProject(req: Request, obj: { projectId?: string }) {
+  return !req.project || obj.projectId === req.project.id;
+}
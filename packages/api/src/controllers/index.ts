@@ -8,10 +8,13 @@ import accessControl from "./access-control";
 import clip from "./clip";
 import multistream from "./multistream";
 import orchestrator from "./orchestrator";
+import organization from "./organization";
+import project from "./project";
 import stream from "./stream";
 import user from "./user";
 import geolocate from "./geolocate";
 import webhook from "./webhook";
+import event from "./event";
 import asset from "./asset";
 import task from "./task";
 import transcode from "./transcode";
@@ -34,11 +37,14 @@ export default {
   "object-store": objectStore,
   multistream,
   orchestrator,
+  organization,
+  project,
   stream,
   user,
   geolocate,
   ingest,
   webhook,
+  event,
   asset,
   task,
   transcode,
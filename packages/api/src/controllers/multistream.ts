@@ -3,9 +3,11 @@ import mung from "express-mung";
 
 import { authorizer } from "../middleware";
 import { validatePost } from "../middleware";
+import { idempotent } from "../middleware";
 import { Response, Router } from "express";
 import {
   FieldsMap,
+  isInProject,
   makeNextHREF,
   parseFilters,
   parseOrder,
@@ -71,6 +73,15 @@ const forbidden = (res: Response) =>
 const badRequest = (res: Response, error: string) =>
   respondError(res, 400, error);
 
+async function getAuthedTarget(req: Request, id: string) {
+  const target = await db.multistreamTarget.getAuthed(
+    id,
+    req.user.id,
+    !!req.user.admin
+  );
+  return target && isInProject(req, target) ? target : null;
+}
+
 const target = Router();
 
 target.use(
@@ -110,7 +121,10 @@ target.get("/", authorizer({}), async (req, res) => {
     if (!isAdmin && req.user.id !== userId) {
       return forbidden(res);
     }
-    [query, opts] = [{ userId }, { limit, cursor }];
+    [query, opts] = [
+      { userId, ...(req.project && { projectId: req.project.id }) },
+      { limit, cursor },
+    ];
   }
   const [output, newCursor] = await db.multistreamTarget.find(query, opts);
 
@@ -122,12 +136,7 @@ target.get("/", authorizer({}), async (req, res) => {
 });
 
 target.get("/:id", authorizer({}), async (req, res) => {
-  const isAdmin = !!req.user.admin;
-  const data = await db.multistreamTarget.getAuthed(
-    req.params.id,
-    req.user.id,
-    isAdmin
-  );
+  const data = await getAuthedTarget(req, req.params.id);
   if (!data) {
     return notFound(res);
   }
@@ -138,6 +147,7 @@ target.post(
   "/",
   authorizer({}),
   validatePost("multistream-target"),
+  idempotent(),
   async (req, res) => {
     const input = req.body as MultistreamTarget;
     const data = await db.multistreamTarget.fillAndCreate({
@@ -145,6 +155,7 @@ target.post(
       url: input.url,
       disabled: input.disabled,
       userId: req.user.id,
+      projectId: req.project?.id,
     });
     res.status(201);
     res.json(data);
@@ -152,9 +163,8 @@ target.post(
 );
 
 target.delete("/:id", authorizer({}), async (req, res) => {
-  const isAdmin = !!req.user.admin;
   const { id } = req.params;
-  if (!(await db.multistreamTarget.hasAccess(id, req.user.id, isAdmin))) {
+  if (!(await getAuthedTarget(req, id))) {
     return notFound(res);
   }
   await db.multistreamTarget.delete(id);
@@ -169,9 +179,8 @@ target.patch(
   authorizer({}),
   validatePost("multistream-target-patch-payload"),
   async (req, res) => {
-    const isAdmin = !!req.user.admin;
     const { id } = req.params;
-    if (!(await db.multistreamTarget.hasAccess(id, req.user.id, isAdmin))) {
+    if (!(await getAuthedTarget(req, id))) {
       return notFound(res);
     }
     const { disabled, name, url } = req.body as MultistreamTargetPatchPayload;
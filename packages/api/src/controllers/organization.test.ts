@@ -0,0 +1,255 @@
+import { ORGANIZATION_HEADER } from "../middleware/auth";
+import { Organization, User } from "../schema/types";
+import {
+  clearDatabase,
+  createUser,
+  setupUsers,
+  TestClient,
+} from "../test-helpers";
+import serverPromise, { TestServer } from "../test-server";
+
+let server: TestServer;
+let mockAdminUserInput: User;
+let mockNonAdminUserInput: User;
+let mockMemberUserInput: User;
+
+beforeAll(async () => {
+  server = await serverPromise;
+
+  mockAdminUserInput = {
+    email: "user_admin@gmail.com",
+    password: "x".repeat(64),
+  };
+
+  mockNonAdminUserInput = {
+    email: "user_non_admin@gmail.com",
+    password: "y".repeat(64),
+  };
+
+  mockMemberUserInput = {
+    email: "user_member@gmail.com",
+    password: "z".repeat(64),
+  };
+});
+
+afterEach(async () => {
+  await clearDatabase(server);
+});
+
+describe("controllers/organization", () => {
+  let client: TestClient;
+  let memberClient: TestClient;
+  let adminToken: string;
+  let ownerUser: User;
+  let memberUser: User;
+  let organization: Organization;
+
+  const orgFetch = (path: string, method = "GET", body?: any) =>
+    memberClient.fetch(path, {
+      method,
+      headers: {
+        [ORGANIZATION_HEADER]: organization.id,
+        ...(body && { "content-type": "application/json" }),
+      },
+      body: body && JSON.stringify(body),
+    });
+
+  const inviteMember = async (role: string) => {
+    let res = await client.post(`/organization/${organization.id}/invite`, {
+      email: mockMemberUserInput.email,
+      role,
+    });
+    expect(res.status).toBe(201);
+    const invite = await res.json();
+
+    res = await memberClient.post(`/organization/invite/${invite.id}/accept`);
+    expect(res.status).toBe(201);
+    return await res.json();
+  };
+
+  beforeEach(async () => {
+    let nonAdminToken: string;
+    ({
+      client,
+      adminToken,
+      nonAdminToken,
+      nonAdminUser: ownerUser,
+    } = await setupUsers(server, mockAdminUserInput, mockNonAdminUserInput));
+    client.jwtAuth = nonAdminToken;
+
+    memberClient = new TestClient({ server });
+    let memberToken: string;
+    ({ user: memberUser, token: memberToken } = await createUser(
+      server,
+      memberClient,
+      mockMemberUserInput,
+      false,
+      true
+    ));
+    memberClient.jwtAuth = memberToken;
+
+    const res = await client.post("/organization", { name: "test org" });
+    expect(res.status).toBe(201);
+    organization = await res.json();
+    expect(organization).toMatchObject({
+      name: "test org",
+      userId: ownerUser.id,
+      role: "owner",
+    });
+  });
+
+  it("should not allow admins to create organizations", async () => {
+    client.jwtAuth = adminToken;
+    const res = await client.post("/organization", { name: "admin org" });
+    expect(res.status).toBe(403);
+  });
+
+  it("should only allow one organization per account", async () => {
+    const res = await client.post("/organization", { name: "other org" });
+    expect(res.status).toBe(409);
+  });
+
+  it("should only allow the invited user to accept an invite", async () => {
+    const res = await client.post(`/organization/${organization.id}/invite`, {
+      email: "someone_else@gmail.com",
+      role: "admin",
+    });
+    expect(res.status).toBe(201);
+    const invite = await res.json();
+
+    const acceptRes = await memberClient.post(
+      `/organization/invite/${invite.id}/accept`
+    );
+    expect(acceptRes.status).toBe(404);
+    const listRes = await memberClient.get("/organization");
+    await expect(listRes.json()).resolves.toEqual([]);
+  });
+
+  it("should act on the organization account with the member role", async () => {
+    const member = await inviteMember("viewer");
+    expect(member).toMatchObject({
+      organizationId: organization.id,
+      userId: memberUser.id,
+      role: "viewer",
+    });
+
+    let res = await memberClient.get("/organization");
+    expect(res.status).toBe(200);
+    await expect(res.json()).resolves.toMatchObject([
+      { id: organization.id, role: "viewer" },
+    ]);
+
+    res = await orgFetch("/user/me");
+    expect(res.status).toBe(200);
+    expect((await res.json()).id).toEqual(ownerUser.id);
+    res = await orgFetch("/stream");
+    expect(res.status).toBe(200);
+    res = await orgFetch("/stream", "POST", { name: "org stream" });
+    expect(res.status).toBe(403);
+
+    res = await client.patch(
+      `/organization/${organization.id}/member/${member.id}`,
+      { role: "developer" }
+    );
+    expect(res.status).toBe(204);
+
+    res = await orgFetch("/stream", "POST", { name: "org stream" });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({
+      userId: ownerUser.id,
+      createdByUserId: memberUser.id,
+    });
+
+    // billing and members are only managed by admins
+    res = await orgFetch("/user/retrieve-invoices", "POST");
+    expect(res.status).toBe(403);
+    res = await memberClient.get(`/organization/${organization.id}/invite`);
+    expect(res.status).toBe(403);
+  });
+
+  it("should only allow admins to see and create API keys", async () => {
+    let res = await client.post("/api-token", { name: "owner key" });
+    expect(res.status).toBe(201);
+
+    const member = await inviteMember("viewer");
+    res = await orgFetch(`/api-token?userId=${ownerUser.id}`);
+    expect(res.status).toBe(403);
+    res = await orgFetch("/api-token", "POST", { name: "viewer key" });
+    expect(res.status).toBe(403);
+
+    res = await client.patch(
+      `/organization/${organization.id}/member/${member.id}`,
+      { role: "developer" }
+    );
+    expect(res.status).toBe(204);
+    res = await orgFetch(`/api-token?userId=${ownerUser.id}`);
+    expect(res.status).toBe(403);
+    res = await orgFetch("/api-token", "POST", { name: "developer key" });
+    expect(res.status).toBe(403);
+
+    res = await client.patch(
+      `/organization/${organization.id}/member/${member.id}`,
+      { role: "admin" }
+    );
+    expect(res.status).toBe(204);
+    res = await orgFetch("/api-token", "POST", { name: "admin key" });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({
+      userId: ownerUser.id,
+      createdByUserId: memberUser.id,
+    });
+    res = await orgFetch(`/api-token?userId=${ownerUser.id}`);
+    expect(res.status).toBe(200);
+    const names = (await res.json()).map((t) => t.name);
+    expect(names).toEqual(expect.arrayContaining(["owner key", "admin key"]));
+  });
+
+  it("should not allow non-members to act on the organization", async () => {
+    let res = await orgFetch("/stream");
+    expect(res.status).toBe(403);
+
+    const member = await inviteMember("developer");
+    res = await orgFetch("/stream");
+    expect(res.status).toBe(200);
+
+    res = await client.delete(
+      `/organization/${organization.id}/member/${member.id}`
+    );
+    expect(res.status).toBe(204);
+    res = await orgFetch("/stream");
+    expect(res.status).toBe(403);
+  });
+
+  it("should only allow owners to manage owners", async () => {
+    const member = await inviteMember("admin");
+
+    let res = await memberClient.get(`/organization/${organization.id}/member`);
+    expect(res.status).toBe(200);
+    const members = await res.json();
+    expect(members).toHaveLength(2);
+    const owner = members.find((m) => m.userId === ownerUser.id);
+
+    res = await memberClient.post(`/organization/${organization.id}/invite`, {
+      email: "new_owner@gmail.com",
+      role: "owner",
+    });
+    expect(res.status).toBe(403);
+    res = await memberClient.patch(
+      `/organization/${organization.id}/member/${member.id}`,
+      { role: "owner" }
+    );
+    expect(res.status).toBe(403);
+
+    // the member of the organization account is never changed
+    res = await client.delete(
+      `/organization/${organization.id}/member/${owner.id}`
+    );
+    expect(res.status).toBe(422);
+
+    // but any other member can leave
+    res = await memberClient.delete(
+      `/organization/${organization.id}/member/${member.id}`
+    );
+    expect(res.status).toBe(204);
+  });
+});
@@ -0,0 +1,347 @@
+import validator from "email-validator";
+import { Request, Router } from "express";
+import { v4 as uuid } from "uuid";
+
+import logger from "../logger";
+import { authorizer, validatePost } from "../middleware";
+import {
+  getOrganizationMember,
+  hasOrganizationRole,
+  OrganizationRole,
+} from "../middleware/auth";
+import {
+  NewOrganizationPayload,
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  OrganizationMemberPatchPayload,
+} from "../schema/types";
+import { db } from "../store";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnprocessableEntityError,
+} from "../store/errors";
+import { WithID } from "../store/types";
+import { sendgridEmail } from "./helpers";
+import { frontendUrl, unsubscribeUrl } from "./user";
+
+const INVITE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+const app = Router();
+
+// Organizations are managed by the user that logged in, which is not the user
+// of the request when it is made on behalf of an organization.
+const loginUserId = (req: Request) => req.member?.userId ?? req.user.id;
+
+// The endpoints below check the role of the user in the organization being
+// managed instead, which is not necessarily the one the request is made for.
+const orgAuthorizer = () =>
+  authorizer({ noApiToken: true, memberRole: "viewer" });
+
+async function getMembership(
+  req: Request,
+  organizationId: string,
+  role: OrganizationRole = "viewer"
+) {
+  const member = await getOrganizationMember(organizationId, loginUserId(req));
+  const organization = member && (await db.organization.get(organizationId));
+  if (!organization) {
+    throw new NotFoundError(`organization not found`);
+  }
+  if (!hasOrganizationRole(member.role, role)) {
+    throw new ForbiddenError(
+      `organization ${member.role} role is not allowed to do this, requires ${role}`
+    );
+  }
+  return { organization, member };
+}
+
+async function getOrgMember(organizationId: string, memberId: string) {
+  const member = await db.organizationMember.get(memberId);
+  if (!member || member.organizationId !== organizationId) {
+    throw new NotFoundError(`member not found`);
+  }
+  return member;
+}
+
+/**
+ * Checks that the member can change the membership of the target. Only owners
+ * can manage other owners, and the user of the organization account can never
+ * be changed as it can always log in to the account directly.
+ */
+function checkCanManage(
+  organization: WithID<Organization>,
+  member: WithID<OrganizationMember>,
+  target: WithID<OrganizationMember>,
+  newRole?: OrganizationRole
+) {
+  if (target.userId === organization.userId) {
+    throw new UnprocessableEntityError(
+      `the member of the organization account cannot be changed`
+    );
+  }
+  const isOwnerChange = target.role === "owner" || newRole === "owner";
+  if (isOwnerChange && member.role !== "owner") {
+    throw new ForbiddenError(`only owners can manage other owners`);
+  }
+}
+
+app.get("/", orgAuthorizer(), async (req, res) => {
+  const [members] = await db.organizationMember.find(
+    { userId: loginUserId(req) },
+    { limit: 100 }
+  );
+  const organizations = await Promise.all(
+    members.map(async ({ organizationId, role }) => {
+      const organization = await db.organization.get(organizationId);
+      return organization && { ...organization, role };
+    })
+  );
+  res.status(200);
+  res.json(organizations.filter((o) => !!o));
+});
+
+app.post(
+  "/",
+  validatePost("new-organization-payload"),
+  orgAuthorizer(),
+  async (req, res) => {
+    const { name } = req.body as NewOrganizationPayload;
+    if (req.member) {
+      throw new BadRequestError(
+        `organizations can only be created from a personal account`
+      );
+    }
+    const user = req.user;
+    if (user.admin) {
+      throw new ForbiddenError(`admin accounts cannot become organizations`);
+    }
+    const [existing] = await db.organization.find(
+      { userId: user.id },
+      { limit: 1 }
+    );
+    if (existing.length > 0) {
+      throw new ConflictError(`account already belongs to an organization`);
+    }
+
+    // the account of the creator becomes the one of the organization, so any
+    // existing resources and billing are kept
+    const now = Date.now();
+    const organization: WithID<Organization> = {
+      id: uuid(),
+      name,
+      userId: user.id,
+      createdBy: user.id,
+      createdAt: now,
+    };
+    await db.organization.create(organization);
+    await db.organizationMember.create({
+      id: uuid(),
+      organizationId: organization.id,
+      userId: user.id,
+      email: user.email,
+      role: "owner",
+      createdAt: now,
+    });
+    logger.info(
+      `created organization id=${organization.id} userId=${user.id} email=${user.email}`
+    );
+
+    res.status(201);
+    res.json({ ...organization, role: "owner" });
+  }
+);
+
+app.get("/:id", orgAuthorizer(), async (req, res) => {
+  const { organization, member } = await getMembership(req, req.params.id);
+  res.status(200);
+  res.json({ ...organization, role: member.role });
+});
+
+app.get("/:id/member", orgAuthorizer(), async (req, res) => {
+  const { organization } = await getMembership(req, req.params.id);
+  const [members] = await db.organizationMember.find(
+    { organizationId: organization.id },
+    { limit: 1000 }
+  );
+  res.status(200);
+  res.json(members);
+});
+
+app.patch(
+  "/:id/member/:memberId",
+  validatePost("organization-member-patch-payload"),
+  orgAuthorizer(),
+  async (req, res) => {
+    const { role } = req.body as OrganizationMemberPatchPayload;
+    const { organization, member } = await getMembership(
+      req,
+      req.params.id,
+      "admin"
+    );
+    const target = await getOrgMember(organization.id, req.params.memberId);
+    checkCanManage(organization, member, target, role);
+
+    await db.organizationMember.update(target.id, { role });
+    logger.info(
+      `changed organization member role organizationId=${organization.id} userId=${target.userId} from=${target.role} to=${role} by=${member.userId}`
+    );
+    res.status(204);
+    res.end();
+  }
+);
+
+app.delete("/:id/member/:memberId", orgAuthorizer(), async (req, res) => {
+  const { organization, member } = await getMembership(req, req.params.id);
+  const target = await getOrgMember(organization.id, req.params.memberId);
+  // any member can leave the organization
+  if (target.id !== member.id) {
+    if (!hasOrganizationRole(member.role, "admin")) {
+      throw new ForbiddenError(`only admins can remove other members`);
+    }
+  }
+  checkCanManage(organization, member, target);
+
+  await db.organizationMember.delete(target.id);
+  logger.info(
+    `removed organization member organizationId=${organization.id} userId=${target.userId} by=${member.userId}`
+  );
+  res.status(204);
+  res.end();
+});
+
+app.get("/:id/invite", orgAuthorizer(), async (req, res) => {
+  const { organization } = await getMembership(req, req.params.id, "admin");
+  const [invites] = await db.organizationInvite.find(
+    { organizationId: organization.id },
+    { limit: 1000 }
+  );
+  res.status(200);
+  res.json(invites);
+});
+
+app.post(
+  "/:id/invite",
+  validatePost("organization-invite"),
+  orgAuthorizer(),
+  async (req, res) => {
+    const { organization, member } = await getMembership(
+      req,
+      req.params.id,
+      "admin"
+    );
+    const { role } = req.body as OrganizationInvite;
+    const email = (req.body as OrganizationInvite).email.toLowerCase();
+    if (!validator.validate(email)) {
+      throw new BadRequestError(`invalid email ${email}`);
+    }
+    if (role === "owner" && member.role !== "owner") {
+      throw new ForbiddenError(`only owners can invite other owners`);
+    }
+    const [members] = await db.organizationMember.find(
+      { organizationId: organization.id, email },
+      { limit: 1 }
+    );
+    if (members.length > 0) {
+      throw new ConflictError(`${email} is already a member`);
+    }
+
+    // a new invite replaces any pending one for the same email
+    const [pending] = await db.organizationInvite.find({
+      organizationId: organization.id,
+      email,
+    });
+    await Promise.all(pending.map((i) => db.organizationInvite.delete(i.id)));
+
+    const now = Date.now();
+    const invite: WithID<OrganizationInvite> = {
+      id: uuid(),
+      organizationId: organization.id,
+      email,
+      role,
+      invitedBy: member.userId,
+      createdAt: now,
+      expiresAt: now + INVITE_TTL,
+    };
+    await db.organizationInvite.create(invite);
+
+    const { supportAddr, sendgridTemplateId, sendgridApiKey } = req.config;
+    if (sendgridApiKey && supportAddr) {
+      try {
+        await sendgridEmail({
+          email,
+          supportAddr,
+          sendgridTemplateId,
+          sendgridApiKey,
+          subject: `Join ${organization.name} on Livepeer Studio`,
+          preheader: `You have been invited to ${organization.name}`,
+          buttonText: "Accept Invite",
+          buttonUrl: frontendUrl(
+            req,
+            `/dashboard/organization/invite/${invite.id}`
+          ),
+          unsubscribe: unsubscribeUrl(req),
+          text: [
+            `You have been invited to join the ${organization.name} organization on Livepeer Studio as ${role}.`,
+            "Log in or sign up with this email address to accept the invite. It expires in 7 days.",
+          ].join("\n\n"),
+        });
+      } catch (err) {
+        logger.error(
+          `error sending organization invite email to=${email} organizationId=${organization.id} err=${err}`
+        );
+      }
+    }
+
+    res.status(201);
+    res.json(invite);
+  }
+);
+
+app.delete("/:id/invite/:inviteId", orgAuthorizer(), async (req, res) => {
+  const { organization } = await getMembership(req, req.params.id, "admin");
+  const invite = await db.organizationInvite.get(req.params.inviteId);
+  if (!invite || invite.organizationId !== organization.id) {
+    throw new NotFoundError(`invite not found`);
+  }
+  await db.organizationInvite.delete(invite.id);
+  res.status(204);
+  res.end();
+});
+
+app.post("/invite/:inviteId/accept", orgAuthorizer(), async (req, res) => {
+  const user = await db.user.get(loginUserId(req));
+  const invite = await db.organizationInvite.get(req.params.inviteId);
+  if (!invite || invite.email !== user.email.toLowerCase()) {
+    throw new NotFoundError(`invite not found`);
+  }
+  if (invite.expiresAt <= Date.now()) {
+    throw new UnprocessableEntityError(`invite has expired`);
+  }
+  const existing = await getOrganizationMember(invite.organizationId, user.id);
+  if (existing) {
+    throw new ConflictError(`user is already a member of the organization`);
+  }
+
+  const member: WithID<OrganizationMember> = {
+    id: uuid(),
+    organizationId: invite.organizationId,
+    userId: user.id,
+    email: user.email,
+    role: invite.role,
+    createdAt: Date.now(),
+  };
+  await db.organizationMember.create(member);
+  await db.organizationInvite.delete(invite.id);
+  logger.info(
+    `accepted organization invite organizationId=${invite.organizationId} userId=${user.id} role=${invite.role}`
+  );
+
+  res.status(201);
+  res.json(member);
+});
+
+export default app;
@@ -222,6 +222,44 @@ describe("controllers/playback", () => {
         });
       });
 
+      it("should only return playback URL within the availability window", async () => {
+        const hour = 60 * 60 * 1000;
+        await db.asset.update(asset.id, {
+          playbackPolicy: {
+            type: "public",
+            availableFrom: Date.now() + hour,
+          },
+        });
+        let res = await client.get(`/playback/${asset.playbackId}`);
+        expect(res.status).toBe(403);
+        await expect(res.json()).resolves.toMatchObject({
+          errors: [expect.stringContaining("not yet available")],
+        });
+
+        await db.asset.update(asset.id, {
+          playbackPolicy: {
+            type: "public",
+            availableFrom: Date.now() - 2 * hour,
+            availableUntil: Date.now() - hour,
+          },
+        });
+        res = await client.get(`/playback/${asset.playbackId}`);
+        expect(res.status).toBe(403);
+        await expect(res.json()).resolves.toMatchObject({
+          errors: [expect.stringContaining("expired")],
+        });
+
+        await db.asset.update(asset.id, {
+          playbackPolicy: {
+            type: "public",
+            availableFrom: Date.now() - hour,
+            availableUntil: Date.now() + hour,
+          },
+        });
+        res = await client.get(`/playback/${asset.playbackId}`);
+        expect(res.status).toBe(200);
+      });
+
       it("should return VTT thumbnails URL when available", async () => {
         asset.files = [
           {
@@ -17,10 +17,15 @@ import { DBSession } from "../store/session-table";
 import { Asset, PlaybackInfo, Stream, User } from "../schema/types";
 import { DBStream } from "../store/stream-table";
 import { WithID } from "../store/types";
-import { NotFoundError, UnprocessableEntityError } from "../store/errors";
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnprocessableEntityError,
+} from "../store/errors";
 import { isExperimentSubject } from "../store/experiment-table";
 import logger from "../logger";
 import { getRunningRecording } from "./session";
+import { availabilityError } from "./access-control";
 
 /**
  * CROSS_USER_ASSETS_CUTOFF_DATE represents the cut-off date for cross-account
@@ -231,6 +236,11 @@ async function getPlaybackInfo(
     origin
   );
 
+  const unavailable = availabilityError((asset ?? stream)?.playbackPolicy);
+  if (unavailable) {
+    throw new ForbiddenError(unavailable);
+  }
+
   if (asset) {
     return await getAssetPlaybackInfo(req.config, ingest, asset);
   }
@@ -0,0 +1,292 @@
+import { v4 as uuid } from "uuid";
+
+import { PROJECT_HEADER } from "../middleware/auth";
+import { Project, User } from "../schema/types";
+import { db } from "../store";
+import { clearDatabase, setupUsers, TestClient } from "../test-helpers";
+import serverPromise, { TestServer } from "../test-server";
+
+let server: TestServer;
+let mockAdminUserInput: User;
+let mockNonAdminUserInput: User;
+
+beforeAll(async () => {
+  server = await serverPromise;
+
+  mockAdminUserInput = {
+    email: "user_admin@gmail.com",
+    password: "x".repeat(64),
+  };
+
+  mockNonAdminUserInput = {
+    email: "user_non_admin@gmail.com",
+    password: "y".repeat(64),
+  };
+});
+
+afterEach(async () => {
+  await clearDatabase(server);
+});
+
+describe("controllers/project", () => {
+  let client: TestClient;
+  let nonAdminUser: User;
+  let staging: Project;
+  let production: Project;
+
+  const createProject = async (name: string) => {
+    const res = await client.post("/project", { name });
+    expect(res.status).toBe(201);
+    return await res.json();
+  };
+
+  const projectClient = async (project: Project) => {
+    const res = await client.post("/api-token", {
+      name: `${project.name} key`,
+      projectId: project.id,
+    });
+    expect(res.status).toBe(201);
+    const { id } = await res.json();
+    return new TestClient({ server, apiKey: id });
+  };
+
+  beforeEach(async () => {
+    let nonAdminToken: string;
+    ({ client, nonAdminUser, nonAdminToken } = await setupUsers(
+      server,
+      mockAdminUserInput,
+      mockNonAdminUserInput
+    ));
+    client.jwtAuth = nonAdminToken;
+
+    staging = await createProject("staging");
+    production = await createProject("production");
+    expect(staging).toMatchObject({ name: "staging", userId: nonAdminUser.id });
+  });
+
+  it("should list the projects of the user", async () => {
+    const res = await client.get("/project");
+    expect(res.status).toBe(200);
+    const projects = await res.json();
+    expect(projects.map((p) => p.name).sort()).toEqual([
+      "production",
+      "staging",
+    ]);
+  });
+
+  it("should scope the resources of a project-bound API key", async () => {
+    const stagingClient = await projectClient(staging);
+    const productionClient = await projectClient(production);
+
+    let res = await stagingClient.post("/stream", { name: "staging stream" });
+    expect(res.status).toBe(201);
+    const stream = await res.json();
+    expect(stream.projectId).toEqual(staging.id);
+
+    res = await stagingClient.get("/stream");
+    await expect(res.json()).resolves.toMatchObject([{ id: stream.id }]);
+    res = await productionClient.get("/stream");
+    await expect(res.json()).resolves.toEqual([]);
+    res = await productionClient.get(`/stream/${stream.id}`);
+    expect(res.status).toBe(404);
+
+    // the account as a whole still sees everything
+    res = await client.get(`/stream/${stream.id}`);
+    expect(res.status).toBe(200);
+
+    res = await productionClient.get("/project");
+    await expect(res.json()).resolves.toMatchObject([{ id: production.id }]);
+  });
+
+  it("should scope the other resources of a project-bound API key", async () => {
+    const stagingClient = await projectClient(staging);
+    const productionClient = await projectClient(production);
+
+    let res = await stagingClient.post("/multistream/target", {
+      name: "staging target",
+      url: "rtmp://test/live/key",
+    });
+    expect(res.status).toBe(201);
+    const target = await res.json();
+    res = await productionClient.get(
+      `/multistream/target?userId=${nonAdminUser.id}`
+    );
+    await expect(res.json()).resolves.toEqual([]);
+    res = await productionClient.get(`/multistream/target/${target.id}`);
+    expect(res.status).toBe(404);
+    res = await productionClient.delete(`/multistream/target/${target.id}`);
+    expect(res.status).toBe(404);
+    res = await productionClient.post("/stream", {
+      name: "production stream",
+      multistream: { targets: [{ profile: "source", id: target.id }] },
+    });
+    expect(res.status).toBe(400);
+
+    res = await stagingClient.post("/access-control/signing-key", {
+      managed: true,
+    });
+    expect(res.status).toBe(201);
+    const signingKey = await res.json();
+    expect(signingKey.projectId).toEqual(staging.id);
+    const keyUrl = `/access-control/signing-key/${signingKey.id}`;
+    res = await productionClient.get(keyUrl);
+    expect(res.status).toBe(404);
+    res = await productionClient.patch(keyUrl, { disabled: true });
+    expect(res.status).toBe(404);
+    res = await productionClient.delete(keyUrl);
+    expect(res.status).toBe(404);
+
+    res = await stagingClient.post("/stream", { name: "staging stream" });
+    const stream = await res.json();
+    res = await productionClient.post(`${keyUrl}/token`, {
+      playbackId: stream.playbackId,
+    });
+    expect(res.status).toBe(404);
+    res = await stagingClient.post(`${keyUrl}/token`, {
+      playbackId: stream.playbackId,
+    });
+    expect(res.status).toBe(201);
+
+    const session = await db.session.create({
+      id: uuid(),
+      kind: "session",
+      name: "staging session",
+      userId: nonAdminUser.id,
+      projectId: staging.id,
+      parentId: stream.id,
+      createdAt: Date.now(),
+      deleted: false,
+    });
+    const task = await db.task.create({
+      id: uuid(),
+      type: "upload",
+      userId: nonAdminUser.id,
+      projectId: staging.id,
+      createdAt: Date.now(),
+    });
+
+    const [stagingEvent, productionEvent] = await Promise.all(
+      [staging, production].map((project) =>
+        db.webhookEvent.create({
+          id: uuid(),
+          event: "stream.started",
+          userId: nonAdminUser.id,
+          projectId: project.id,
+          createdAt: Date.now(),
+        })
+      )
+    );
+    res = await productionClient.get("/event");
+    await expect(res.json()).resolves.toMatchObject([
+      { id: productionEvent.id },
+    ]);
+    res = await productionClient.get(`/event/${stagingEvent.id}`);
+    expect(res.status).toBe(404);
+    res = await stagingClient.get(`/event/${stagingEvent.id}`);
+    expect(res.status).toBe(200);
+
+    res = await stagingClient.post("/webhook", {
+      name: "staging webhook",
+      url: "https://example.com/webhook",
+      events: ["stream.started"],
+    });
+    const webhook = await res.json();
+    for (const path of ["", "/log", "/trigger"]) {
+      res = await productionClient.get(`/webhook/${webhook.id}${path}`);
+      expect(res.status).toBe(404);
+    }
+
+    res = await stagingClient.get(`/session/${session.id}`);
+    expect(res.status).toBe(200);
+    res = await productionClient.get(`/session/${session.id}`);
+    expect(res.status).toBe(404);
+    res = await productionClient.get("/session");
+    await expect(res.json()).resolves.toEqual([]);
+
+    res = await stagingClient.get(`/task/${task.id}`);
+    expect(res.status).toBe(200);
+    res = await productionClient.get(`/task/${task.id}`);
+    expect(res.status).toBe(404);
+    res = await productionClient.get("/task");
+    await expect(res.json()).resolves.toEqual([]);
+  });
+
+  it("should report the usage of the resources of a project", async () => {
+    const stagingClient = await projectClient(staging);
+    let res = await stagingClient.post("/stream", { name: "staging stream" });
+    const stream = await res.json();
+    const createdAt = Date.now();
+    for (const [projectId, duration] of [
+      [staging.id, 90],
+      [production.id, 30],
+    ] as const) {
+      await db.session.create({
+        id: uuid(),
+        kind: "session",
+        name: "session",
+        userId: nonAdminUser.id,
+        projectId,
+        parentId: stream.id,
+        sourceSegmentsDuration: duration,
+        createdAt,
+      });
+      await db.asset.create({
+        id: uuid(),
+        name: "asset",
+        userId: nonAdminUser.id,
+        projectId,
+        source: { type: "directUpload" },
+        status: { phase: "ready", updatedAt: createdAt },
+        videoSpec: { duration: 2 * duration },
+        createdAt,
+      });
+    }
+
+    const query = `fromTime=${createdAt - 1000}&toTime=${createdAt + 1000}`;
+    res = await client.get(`/project/${staging.id}/usage?${query}`);
+    expect(res.status).toBe(200);
+    await expect(res.json()).resolves.toEqual({
+      projectId: staging.id,
+      TotalUsageMins: 1.5,
+      StorageUsageMins: 3,
+    });
+    res = await stagingClient.get(`/project/${production.id}/usage?${query}`);
+    expect(res.status).toBe(404);
+    res = await client.get(`/project/${staging.id}/usage`);
+    expect(res.status).toBe(400);
+  });
+
+  it("should scope dashboard requests with the project header", async () => {
+    let res = await client.fetch("/stream", {
+      method: "POST",
+      headers: {
+        [PROJECT_HEADER]: staging.id,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({ name: "staging stream" }),
+    });
+    expect(res.status).toBe(201);
+    await expect(res.json()).resolves.toMatchObject({ projectId: staging.id });
+
+    res = await client.fetch("/stream", {
+      headers: { [PROJECT_HEADER]: production.id },
+    });
+    await expect(res.json()).resolves.toEqual([]);
+  });
+
+  it("should not allow a project-bound API key to switch projects", async () => {
+    const stagingClient = await projectClient(staging);
+    const res = await stagingClient.fetch("/stream", {
+      headers: { [PROJECT_HEADER]: production.id },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it("should not delete projects with API keys bound to them", async () => {
+    await projectClient(staging);
+    let res = await client.delete(`/project/${staging.id}`);
+    expect(res.status).toBe(409);
+    res = await client.delete(`/project/${production.id}`);
+    expect(res.status).toBe(204);
+  });
+});
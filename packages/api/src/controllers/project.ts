@@ -0,0 +1,98 @@
+import { Request, Router } from "express";
+import { v4 as uuid } from "uuid";
+
+import { authorizer, validatePost } from "../middleware";
+import { NewProjectPayload, Project } from "../schema/types";
+import { db } from "../store";
+import { BadRequestError, ConflictError, NotFoundError } from "../store/errors";
+import { WithID } from "../store/types";
+import { toStringValues } from "./helpers";
+import { getProjectUsage } from "./usage";
+
+const app = Router();
+
+async function getProject(req: Request) {
+  const { id } = req.params;
+  const project = await db.project.get(id);
+  const isOwner =
+    project?.userId === req.user.id && (!req.project || req.project.id === id);
+  if (!project || (!isOwner && !req.user.admin)) {
+    throw new NotFoundError(`project not found`);
+  }
+  return project;
+}
+
+app.get("/", authorizer({}), async (req, res) => {
+  // API keys bound to a project can only see their own
+  const [projects] = req.project
+    ? [[req.project]]
+    : await db.project.find({ userId: req.user.id }, { limit: 100 });
+  res.status(200);
+  res.json(projects);
+});
+
+app.get("/:id", authorizer({}), async (req, res) => {
+  res.status(200);
+  res.json(await getProject(req));
+});
+
+app.get("/:id/usage", authorizer({}), async (req, res) => {
+  const project = await getProject(req);
+  const { fromTime, toTime } = toStringValues(req.query);
+  if (!fromTime || !toTime) {
+    throw new BadRequestError(`should specify time range`);
+  }
+  res.status(200);
+  res.json(await getProjectUsage(project.id, +fromTime, +toTime));
+});
+
+app.post(
+  "/",
+  validatePost("new-project-payload"),
+  authorizer({ noApiToken: true }),
+  async (req, res) => {
+    const { name } = req.body as NewProjectPayload;
+    const project: WithID<Project> = {
+      id: uuid(),
+      name,
+      userId: req.user.id,
+      createdAt: Date.now(),
+    };
+    await db.project.create(project);
+
+    res.status(201);
+    res.json(project);
+  }
+);
+
+app.patch(
+  "/:id",
+  validatePost("new-project-payload"),
+  authorizer({ noApiToken: true }),
+  async (req, res) => {
+    const project = await getProject(req);
+    const { name } = req.body as NewProjectPayload;
+    await db.project.update(project.id, { name });
+    res.status(204);
+    res.end();
+  }
+);
+
+app.delete("/:id", authorizer({ noApiToken: true }), async (req, res) => {
+  const project = await getProject(req);
+  const [tokens] = await db.apiToken.find(
+    { projectId: project.id },
+    { limit: 1 }
+  );
+  if (tokens.length > 0) {
+    throw new ConflictError(
+      `project has API keys bound to it, delete them first`
+    );
+  }
+  // resources of the project are kept, only visible outside of any project
+  await db.project.delete(project.id);
+  res.status(204);
+  res.end();
+});
+
+export default app;
@@ -12,6 +12,7 @@ import {
 import { v4 as uuid } from "uuid";
 import { authorizer, validatePost } from "../middleware";
 import { db } from "../store";
+import { isInProject } from "./helpers";
 import {
   BadRequestError,
   ForbiddenError,
@@ -47,6 +48,7 @@ app.post("/", authorizer({}), async (req, res) => {
   await db.room.create({
     id: id,
     userId: req.user.id,
+    projectId: req.project?.id,
     createdAt: Date.now(),
     participants: {},
     events: [],
@@ -60,7 +62,7 @@ app.post("/", authorizer({}), async (req, res) => {
 
 async function getRoom(req) {
   const room = await db.room.get(req.params.roomId);
-  if (!room || room.deleted) {
+  if (!room || room.deleted || !isInProject(req, room)) {
     throw new NotFoundError(`room not found`);
   }
 
@@ -153,6 +155,7 @@ app.post(
     if (
       !stream ||
       stream.deleted ||
+      !isInProject(req, stream) ||
       (!req.user.admin && req.user.id !== stream.userId)
     ) {
       throw new NotFoundError(`stream not found`);
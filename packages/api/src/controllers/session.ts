@@ -12,6 +12,7 @@ import { WithID } from "../store/types";
 import { CliArgs } from "../parse-cli";
 import {
   FieldsMap,
+  isInProject,
   makeNextHREF,
   parseFilters,
   parseOrder,
@@ -74,6 +75,9 @@ app.get("/", authorizer({}), async (req, res, next) => {
   if (userId) {
     query.push(sql`session.data->>'userId' = ${userId}`);
   }
+  if (req.project) {
+    query.push(sql`session.data->>'projectId' = ${req.project.id}`);
+  }
   if (parentId) {
     query.push(sql`session.data->>'parentId' = ${parentId}`);
   }
@@ -145,7 +149,9 @@ app.get("/:id", authorizer({}), async (req, res) => {
   let session = await db.session.get(req.params.id);
   if (
     !session ||
-    ((session.userId !== req.user.id || session.deleted) &&
+    ((session.userId !== req.user.id ||
+      session.deleted ||
+      !isInProject(req, session)) &&
       !req.user.admin &&
       !LVPR_SDK_EMAILS.includes(req.user.email))
   ) {
@@ -185,7 +191,7 @@ app.get("/:id/clips", authorizer({}), async (req, res) => {
 
   const session = await db.session.get(id);
 
-  if (!session) {
+  if (!session || !isInProject(req, session)) {
     throw new NotFoundError("Session not found");
   }
 
@@ -119,6 +119,88 @@ describe("controllers/signing-key", () => {
       );
     });
 
+    it("should create a managed signing key and mint playback tokens with it", async () => {
+      let res = await client.post("/access-control/signing-key", {
+        managed: true,
+      });
+      expect(res.status).toBe(201);
+      const created = (await res.json()) as SigningKeyResponsePayload;
+      expect(created.managed).toBe(true);
+      expect(created.privateKey).toBeUndefined();
+      expect(created).not.toHaveProperty("encryptedPrivateKey");
+
+      res = await client.get(`/access-control/signing-key/${created.id}`);
+      const managedKey = await res.json();
+      expect(managedKey).not.toHaveProperty("encryptedPrivateKey");
+
+      res = await client.post("/stream", {
+        name: "test",
+        playbackPolicy: { type: "jwt" },
+      });
+      const stream = await res.json();
+
+      const preMintTime = Date.now();
+      res = await client.post(
+        `/access-control/signing-key/${created.id}/token`,
+        {
+          playbackId: stream.playbackId,
+          expiresIn: 600,
+          viewerId: "viewer-1",
+          custom: { name: "Satoshi Nakamoto" },
+        }
+      );
+      expect(res.status).toBe(201);
+      const { token, expiresAt } = await res.json();
+      expect(expiresAt).toBeGreaterThanOrEqual(preMintTime + 600 * 1000);
+
+      const publicKey = Buffer.from(created.publicKey, "base64").toString();
+      const decoded = jwt.verify(token, publicKey) as JwtPayload;
+      expect(decoded).toMatchObject({
+        sub: stream.playbackId,
+        viewerId: "viewer-1",
+        action: "pull",
+        pub: created.publicKey,
+        name: "Satoshi Nakamoto",
+        exp: Math.floor(expiresAt / 1000),
+      });
+
+      client.jwtAuth = adminToken;
+      res = await client.post("/access-control/gate", {
+        stream: `video+${stream.playbackId}`,
+        pub: decoded.pub,
+        type: "jwt",
+      });
+      expect(res.status).toBe(204);
+    });
+
+    it("should not mint tokens with unmanaged keys or for content of other users", async () => {
+      let res = await client.post(
+        `/access-control/signing-key/${signingKey.id}/token`,
+        { playbackId: "1234abcd" }
+      );
+      expect(res.status).toBe(403);
+
+      res = await client.post("/access-control/signing-key", {
+        managed: true,
+      });
+      const created = await res.json();
+      res = await client.post(
+        `/access-control/signing-key/${created.id}/token`,
+        { playbackId: "1234abcd" }
+      );
+      expect(res.status).toBe(404);
+
+      client.jwtAuth = adminToken;
+      res = await client.post("/stream", { name: "admin stream" });
+      const adminStream = await res.json();
+      client.jwtAuth = nonAdminToken;
+      res = await client.post(
+        `/access-control/signing-key/${created.id}/token`,
+        { playbackId: adminStream.playbackId }
+      );
+      expect(res.status).toBe(404);
+    });
+
     it("should allow disable and enable the signing key & change the name", async () => {
       let res = await client.patch(
         `/access-control/signing-key/${signingKey.id}`,
@@ -2,6 +2,7 @@ import { authorizer, validatePost } from "../middleware";
 import { Router } from "express";
 import {
   FieldsMap,
+  isInProject,
   makeNextHREF,
   parseFilters,
   parseOrder,
@@ -10,14 +11,66 @@ import {
 import { db } from "../store";
 import sql from "sql-template-strings";
 import { v4 as uuid } from "uuid";
-import { generateKeyPair, KeyPairSyncResult } from "crypto";
-import { ForbiddenError, NotFoundError } from "../store/errors";
 import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPublicKey,
+  generateKeyPair,
+  JsonWebKey,
+  KeyPairSyncResult,
+  randomBytes,
+} from "crypto";
+import { promises as dns } from "dns";
+import isLocalIP from "is-local-ip";
+import jwt from "jsonwebtoken";
+import { isIP } from "net";
+import fetch, { Response } from "node-fetch";
+import { URL } from "url";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  NotImplementedError,
+} from "../store/errors";
+import {
+  Asset,
+  NewSigningKeyPayload,
   SigningKey,
   SigningKeyPatchPayload,
   SigningKeyResponsePayload,
+  SigningKeyTokenPayload,
+  SigningKeyTokenResponse,
+  User,
 } from "../schema/types";
 import { WithID } from "../store/types";
+import { DBStream } from "../store/stream-table";
+import { LruCache } from "../util";
+
+// Issuer of the playback tokens, as expected by the playback infrastructure.
+const PLAYBACK_TOKEN_ISSUER = "Livepeer Studio";
+const JWKS_TIMEOUT = 5 * 1000;
+const JWKS_MAX_SIZE = 1024 * 1024;
+// Registered JWKS are fetched again after this long, so that keys rotated by
+// their owners are picked up without having to update the signing key.
+const JWKS_CACHE_TTL = 10 * 60 * 1000;
+// Failed JWKS requests are not retried for this long, and the last fetched
+// keys keep being used while the URL fails for at most JWKS_STALE_TTL.
+const JWKS_RETRY_INTERVAL = 60 * 1000;
+const JWKS_STALE_TTL = 24 * 60 * 60 * 1000;
+const JWKS_CACHE_SIZE = 10000;
+// Bound on the time spent looking for a public key in the JWKS of a user,
+// as it happens while a viewer waits for playback.
+const JWKS_LOOKUP_TIMEOUT = 5 * 1000;
+
+type CachedJwks = {
+  publicKeys: string[] | null;
+  fetchedAt: number;
+  refreshAt: number;
+};
+
+const jwksCache = new LruCache<CachedJwks>(JWKS_CACHE_SIZE);
+const jwksRequests = new Map<string, Promise<string[]>>();
 
 const fieldsMap: FieldsMap = {
   id: `signing_key.ID`,
@@ -51,6 +104,249 @@ async function generateSigningKeys() {
   return keypair;
 }
 
+// Encrypts private keys of managed signing keys with AES-256-GCM, storing the
+// IV and auth tag along with the ciphertext.
+function encryptPrivateKey(privateKey: string, secret: string) {
+  const key = createHash("sha256").update(secret).digest();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(privateKey, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((buf) => buf.toString("base64"))
+    .join(".");
+}
+
+function decryptPrivateKey(encryptedPrivateKey: string, secret: string) {
+  const key = createHash("sha256").update(secret).digest();
+  const [iv, authTag, encrypted] = encryptedPrivateKey
+    .split(".")
+    .map((str) => Buffer.from(str, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+// Normalizes a public key in any of the supported formats to its base64 DER,
+// so that keys can be compared regardless of how their PEMs are wrapped.
+function publicKeyDer(key: string | JsonWebKey, format: "pem" | "jwk") {
+  const publicKey =
+    format === "jwk"
+      ? createPublicKey({ key: key as JsonWebKey, format: "jwk" })
+      : createPublicKey(key as string);
+  return publicKey.export({ type: "spki", format: "der" }).toString("base64");
+}
+
+// Checks that the JWKS URL can be fetched by the API, as it must not point to
+// the internal network of the API unless registered by an admin.
+async function verifyJwksUrl(jwksUrl: string, allowLocal: boolean) {
+  let url: URL;
+  try {
+    url = new URL(jwksUrl);
+  } catch (err) {
+    throw new Error(`JWKS URL is invalid`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`JWKS URL must be http or https`);
+  }
+  if (allowLocal) {
+    return;
+  }
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true })).map((a) => a.address);
+  } catch (err) {
+    throw new Error(`JWKS URL host could not be resolved`);
+  }
+  if (addresses.some((addr) => isLocalIP(addr) || addr.startsWith("0."))) {
+    throw new Error(`JWKS URL resolves to a local address`);
+  }
+}
+
+// Fetches the public keys of a JWKS. Errors only describe the response, not
+// the network of the API, as they are returned to the users.
+async function fetchJwksPublicKeys(jwksUrl: string, allowLocal: boolean) {
+  await verifyJwksUrl(jwksUrl, allowLocal);
+  let res: Response;
+  try {
+    // redirects are not followed since they could point anywhere
+    res = await fetch(jwksUrl, {
+      timeout: JWKS_TIMEOUT,
+      size: JWKS_MAX_SIZE,
+      redirect: "manual",
+    });
+  } catch (err) {
+    console.log(`signing-key: error requesting JWKS url=${jwksUrl} err=${err}`);
+    throw new Error(`JWKS request failed`);
+  }
+  if (!res.ok) {
+    throw new Error(`JWKS request failed with status ${res.status}`);
+  }
+  let keys: JsonWebKey[];
+  try {
+    ({ keys } = (await res.json()) as { keys?: JsonWebKey[] });
+  } catch (err) {
+    throw new Error(`JWKS response is not valid JSON`);
+  }
+  if (!Array.isArray(keys)) {
+    throw new Error(`JWKS response has no keys`);
+  }
+  try {
+    return keys
+      .filter((jwk) => !jwk.use || jwk.use === "sig")
+      .map((jwk) => publicKeyDer(jwk, "jwk"));
+  } catch (err) {
+    throw new Error(`JWKS response has invalid keys`);
+  }
+}
+
+/**
+ * Fetches the public keys of the JWKS and caches them. The last fetched keys
+ * keep being used while the URL fails, until they get too old.
+ */
+async function refreshJwksPublicKeys(
+  jwksUrl: string,
+  allowLocal: boolean
+): Promise<string[]> {
+  const key = JSON.stringify([jwksUrl, allowLocal]);
+  const cached = jwksCache.get(key);
+  const now = Date.now();
+  try {
+    const publicKeys = await fetchJwksPublicKeys(jwksUrl, allowLocal);
+    jwksCache.set(
+      key,
+      { publicKeys, fetchedAt: now, refreshAt: now + JWKS_CACHE_TTL },
+      JWKS_STALE_TTL
+    );
+    return publicKeys;
+  } catch (err) {
+    const stale = cached?.publicKeys ? cached : null;
+    jwksCache.set(
+      key,
+      {
+        publicKeys: stale?.publicKeys ?? null,
+        fetchedAt: stale?.fetchedAt ?? now,
+        refreshAt: now + JWKS_RETRY_INTERVAL,
+      },
+      JWKS_STALE_TTL - (now - (stale?.fetchedAt ?? now))
+    );
+    if (!stale) {
+      throw err;
+    }
+    console.log(
+      `signing-key: error refreshing JWKS url=${jwksUrl}, using stale keys err=${err}`
+    );
+    return stale.publicKeys;
+  }
+}
+
+/**
+ * Returns the public keys of the JWKS, fetching it at most once per cache
+ * period, or once per retry interval while it fails.
+ */
+async function getJwksPublicKeys(
+  jwksUrl: string,
+  allowLocal: boolean
+): Promise<string[]> {
+  const key = JSON.stringify([jwksUrl, allowLocal]);
+  const cached = jwksCache.get(key);
+  if (cached && cached.refreshAt > Date.now()) {
+    if (!cached.publicKeys) {
+      throw new Error(`JWKS request failed recently`);
+    }
+    return cached.publicKeys;
+  }
+  // concurrent requests for the same JWKS share a single fetch
+  let request = jwksRequests.get(key);
+  if (!request) {
+    request = refreshJwksPublicKeys(jwksUrl, allowLocal).finally(() =>
+      jwksRequests.delete(key)
+    );
+    jwksRequests.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Finds the JWKS signing key of the user that contains the given public key,
+ * encoded as base64 PEM like the `pub` claim of playback JWTs. The JWKS are
+ * fetched in parallel and the lookup gives up after JWKS_LOOKUP_TIMEOUT.
+ */
+export async function findJwksSigningKey(
+  user: User,
+  pub: string
+): Promise<WithID<SigningKey>> {
+  let der: string;
+  try {
+    der = publicKeyDer(Buffer.from(pub, "base64").toString(), "pem");
+  } catch (err) {
+    return null;
+  }
+  const [signingKeys] = await db.signingKey.find(
+    [
+      sql`signing_key.data->>'userId' = ${user.id}`,
+      sql`signing_key.data->>'jwksUrl' IS NOT NULL`,
+      sql`signing_key.data->>'deleted' IS NULL`,
+    ],
+    { limit: 100 }
+  );
+  const lookups = signingKeys.map(async (signingKey) => {
+    try {
+      const publicKeys = await getJwksPublicKeys(
+        signingKey.jwksUrl,
+        !!user.admin
+      );
+      return publicKeys.includes(der) ? signingKey : null;
+    } catch (err) {
+      console.log(
+        `signing-key: error fetching JWKS of signing key id=${signingKey.id} url=${signingKey.jwksUrl} err=${err}`
+      );
+      return null;
+    }
+  });
+
+  let timeout: NodeJS.Timeout;
+  const timedOut = new Promise<WithID<SigningKey>[]>((resolve) => {
+    timeout = setTimeout(() => resolve([]), JWKS_LOOKUP_TIMEOUT);
+  });
+  try {
+    const found = await Promise.race([Promise.all(lookups), timedOut]);
+    return found.find((signingKey) => signingKey) ?? null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Returns why the signing key can't grant playback of the content, if it is
+ * expired or limited to some other content.
+ */
+export function signingKeyScopeError(
+  signingKey: SigningKey,
+  content: DBStream | WithID<Asset>,
+  now = Date.now()
+): string {
+  if (signingKey.expiresAt && signingKey.expiresAt <= now) {
+    return "The public key is expired";
+  }
+  const { playbackIds, creatorIds } = signingKey;
+  if (playbackIds && !playbackIds.includes(content.playbackId)) {
+    return "The public key is not allowed for this content";
+  }
+  const creatorId = content.creatorId?.value;
+  if (creatorIds && !creatorIds.includes(creatorId)) {
+    return "The public key is not allowed for this content";
+  }
+  return null;
+}
+
 const signingKeyApp = Router();
 
 signingKeyApp.get("/", authorizer({}), async (req, res) => {
@@ -87,7 +383,7 @@ signingKeyApp.get("/", authorizer({}), async (req, res) => {
           res.set("X-Total-Count", c);
         }
         return {
-          data,
+          data: db.signingKey.cleanWriteOnlyResponse(data),
           user: db.user.cleanWriteOnlyResponse(usersdata),
         };
       },
@@ -104,6 +400,9 @@ signingKeyApp.get("/", authorizer({}), async (req, res) => {
   const query = parseFilters(fieldsMap, filters);
   query.push(sql`signing_key.data->>'userId' = ${req.user.id}`);
   query.push(sql`signing_key.data->>'deleted' IS NULL`);
+  if (req.project) {
+    query.push(sql`signing_key.data->>'projectId' = ${req.project.id}`);
+  }
 
   let fields = " signing_key.id as id, signing_key.data as data";
   if (count) {
@@ -120,7 +419,7 @@ signingKeyApp.get("/", authorizer({}), async (req, res) => {
       if (count) {
         res.set("X-Total-Count", c);
       }
-      return data;
+      return db.signingKey.cleanWriteOnlyResponse(data);
     },
   });
 
@@ -139,7 +438,8 @@ signingKeyApp.get("/:id", authorizer({}), async (req, res) => {
   if (
     !signingKey ||
     signingKey.deleted ||
-    (req.user.admin !== true && req.user.id !== signingKey.userId)
+    (req.user.admin !== true &&
+      (req.user.id !== signingKey.userId || !isInProject(req, signingKey)))
   ) {
     res.status(404);
     return res.json({
@@ -147,7 +447,7 @@ signingKeyApp.get("/:id", authorizer({}), async (req, res) => {
     });
   }
 
-  res.json(signingKey);
+  res.json(db.signingKey.cleanWriteOnlyResponse(signingKey));
 });
 
 signingKeyApp.post(
@@ -175,25 +475,67 @@ signingKeyApp.post(
       });
     }
 
+    const { managed, expiresAt, playbackIds, creatorIds, jwksUrl } =
+      req.body as NewSigningKeyPayload;
+    const { signingKeyEncryptionSecret } = req.config;
+    if (managed && !signingKeyEncryptionSecret) {
+      throw new NotImplementedError(
+        `managed signing keys are not supported in this environment`
+      );
+    }
+    if (managed && jwksUrl) {
+      throw new BadRequestError(`JWKS signing keys cannot be managed`);
+    }
+    if (expiresAt && expiresAt <= Date.now()) {
+      throw new BadRequestError(`expiresAt must be in the future`);
+    }
+
     const id = uuid();
+    const doc: WithID<SigningKey> = {
+      id,
+      name: req.body.name || "Signing Key " + (output.length + 1),
+      userId: req.user.id,
+      projectId: req.project?.id,
+      createdByUserId: req.member?.userId,
+      createdAt: Date.now(),
+      expiresAt,
+      playbackIds,
+      creatorIds,
+    };
+
+    if (jwksUrl) {
+      try {
+        await refreshJwksPublicKeys(jwksUrl, !!req.user.admin);
+      } catch (err) {
+        throw new BadRequestError(`invalid JWKS at ${jwksUrl}: ${err.message}`);
+      }
+      await db.signingKey.create({ ...doc, jwksUrl });
+      res.status(201);
+      return res.json({ ...doc, jwksUrl });
+    }
+
     const keypair = await generateSigningKeys();
 
     let b64PublicKey = Buffer.from(keypair.publicKey).toString("base64");
     let b64PrivateKey = Buffer.from(keypair.privateKey).toString("base64");
 
-    var doc: WithID<SigningKey> = {
-      id,
-      name: req.body.name || "Signing Key " + (output.length + 1),
-      userId: req.user.id,
-      createdAt: Date.now(),
+    Object.assign(doc, {
       publicKey: b64PublicKey,
-    };
+      ...(managed && {
+        managed,
+        encryptedPrivateKey: encryptPrivateKey(
+          keypair.privateKey,
+          signingKeyEncryptionSecret
+        ),
+      }),
+    });
 
     await db.signingKey.create(doc);
 
+    // the private key of managed keys never leaves the API
     var createdSigningKey: SigningKeyResponsePayload = {
-      ...doc,
-      privateKey: b64PrivateKey,
+      ...db.signingKey.cleanWriteOnlyResponse(doc),
+      ...(!managed && { privateKey: b64PrivateKey }),
     };
 
     res.status(201);
@@ -204,7 +546,7 @@ signingKeyApp.post(
 signingKeyApp.delete("/:id", authorizer({}), async (req, res) => {
   const { id } = req.params;
   const signingKey = await db.signingKey.get(id);
-  if (!signingKey || signingKey.deleted) {
+  if (!signingKey || signingKey.deleted || !isInProject(req, signingKey)) {
     throw new NotFoundError(`signing key not found`);
   }
   if (!req.user.admin && req.user.id !== signingKey.userId) {
@@ -222,7 +564,7 @@ signingKeyApp.patch(
   async (req, res) => {
     const { id } = req.params;
     const signingKey = await db.signingKey.get(id);
-    if (!signingKey || signingKey.deleted) {
+    if (!signingKey || signingKey.deleted || !isInProject(req, signingKey)) {
       return res.status(404).json({ errors: ["not found"] });
     }
     if (!req.user.admin && req.user.id !== signingKey.userId) {
@@ -241,4 +583,74 @@ signingKeyApp.patch(
   }
 );
 
+signingKeyApp.post(
+  "/:id/token",
+  validatePost("signing-key-token-payload"),
+  authorizer({}),
+  async (req, res) => {
+    const signingKey = await db.signingKey.get(req.params.id);
+    if (
+      !signingKey ||
+      signingKey.deleted ||
+      !isInProject(req, signingKey) ||
+      (!req.user.admin && req.user.id !== signingKey.userId)
+    ) {
+      throw new NotFoundError(`signing key not found`);
+    }
+    if (!signingKey.managed || !signingKey.encryptedPrivateKey) {
+      throw new ForbiddenError(
+        `only managed signing keys can be used to create tokens`
+      );
+    }
+    if (signingKey.disabled) {
+      throw new ForbiddenError(`signing key is disabled`);
+    }
+
+    const {
+      playbackId,
+      expiresIn = 3600,
+      viewerId,
+      custom,
+    } = req.body as SigningKeyTokenPayload;
+    const content =
+      (await db.stream.getByPlaybackId(playbackId)) ||
+      (await db.asset.getByPlaybackId(playbackId));
+    if (
+      !content ||
+      content.deleted ||
+      content.userId !== signingKey.userId ||
+      !isInProject(req, content)
+    ) {
+      throw new NotFoundError(`content not found`);
+    }
+    const scopeError = signingKeyScopeError(signingKey, content);
+    if (scopeError) {
+      throw new ForbiddenError(scopeError);
+    }
+
+    const privateKey = decryptPrivateKey(
+      signingKey.encryptedPrivateKey,
+      req.config.signingKeyEncryptionSecret
+    );
+    const expiresAt = Date.now() + expiresIn * 1000;
+    const token = jwt.sign(
+      {
+        ...custom,
+        sub: playbackId,
+        viewerId,
+        action: "pull",
+        iss: PLAYBACK_TOKEN_ISSUER,
+        pub: signingKey.publicKey,
+        video: "none",
+        exp: Math.floor(expiresAt / 1000),
+      },
+      privateKey,
+      { algorithm: "ES256" }
+    );
+
+    const response: SigningKeyTokenResponse = { token, expiresAt };
+    res.status(201).json(response);
+  }
+);
+
 export default signingKeyApp;
@@ -1151,6 +1151,49 @@ describe("controllers/stream", () => {
         }
       });
 
+      it("sends webhook events only when the stream health changes", async () => {
+        const publishSpy = jest.spyOn(server.queue, "publishWebhook");
+        try {
+          await sendStreamHealthHook(samplePayload(true, false));
+          await sendStreamHealthHook(samplePayload(true, false));
+          await sendStreamHealthHook(samplePayload(true, true));
+          await sendStreamHealthHook(samplePayload(true, true));
+
+          const calls = publishSpy.mock.calls.filter(([key]) =>
+            key.startsWith("events.stream.")
+          );
+          expect(calls.map(([key]) => key)).toEqual([
+            "events.stream.unhealthy",
+            "events.stream.healthy",
+          ]);
+          expect(calls[0][1]).toMatchObject({
+            event: "stream.unhealthy",
+            streamId: stream.id,
+            sessionId: "sampleSessionId",
+            payload: {
+              isHealthy: false,
+              issues: ["Under the weather"],
+              tracks: [
+                {
+                  id: "track1",
+                  codec: "h264",
+                  kbits: 1000,
+                  fps: 0.03,
+                  width: 1280,
+                  height: 720,
+                },
+              ],
+            },
+          });
+          expect(calls[1][1]).toMatchObject({
+            event: "stream.healthy",
+            payload: { isHealthy: true, issues: [] },
+          });
+        } finally {
+          publishSpy.mockRestore();
+        }
+      });
+
       it("updates the stream's lastSeen field", async () => {
         const timeBeforeUpdate = Date.now();
         const payload = samplePayload(true, true);
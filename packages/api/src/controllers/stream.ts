@@ -9,6 +9,7 @@ import _ from "lodash";
 import logger from "../logger";
 import { authorizer } from "../middleware";
 import { validatePost } from "../middleware";
+import { idempotent } from "../middleware";
 import { geolocateMiddleware } from "../middleware";
 import { CliArgs } from "../parse-cli";
 import {
@@ -45,6 +46,7 @@ import {
   mapInputCreatorId,
   triggerCatalystStreamUpdated,
   triggerCatalystStreamNuke,
+  isInProject,
 } from "./helpers";
 import wowzaHydrate from "./wowza-hydrate";
 import Queue from "../store/queue";
@@ -83,8 +85,11 @@ const hackMistSettings = (req: Request, profiles: Profile[]): Profile[] => {
   });
 };
 
+// Targets referenced by ID must be in the project of the request, if any, and
+// the ones created from a spec are added to it.
 async function validateMultistreamTarget(
   userId: string,
+  projectId: string | undefined,
   profileNames: Set<string>,
   target: MultistreamTargetRef
 ): Promise<Omit<MultistreamTargetRef, "spec">> {
@@ -101,7 +106,8 @@ async function validateMultistreamTarget(
     );
   }
   if (id) {
-    if (!(await db.multistreamTarget.hasAccess(id, userId))) {
+    const existing = await db.multistreamTarget.getAuthed(id, userId, false);
+    if (!existing || (projectId && existing.projectId !== projectId)) {
       throw new BadRequestError(`multistream target not found: "${id}"`);
     }
     return target;
@@ -110,6 +116,7 @@ async function validateMultistreamTarget(
     name: spec.name,
     url: spec.url,
     userId,
+    projectId,
   });
   const { spec: _, ...specless } = target;
   return { ...specless, id: created.id };
@@ -117,6 +124,7 @@ async function validateMultistreamTarget(
 
 async function validateMultistreamOpts(
   userId: string,
+  projectId: string | undefined,
   profiles: Profile[],
   multistream: MultistreamOptions
 ): Promise<MultistreamOptions> {
@@ -138,7 +146,7 @@ async function validateMultistreamOpts(
   }
   const targets = await Promise.all(
     multistream.targets.map((t) =>
-      validateMultistreamTarget(userId, profileNames, t)
+      validateMultistreamTarget(userId, projectId, profileNames, t)
     )
   );
   const uniqueIds = new Set(targets.map((t) => `${t.profile} -> ${t.id}`));
@@ -161,6 +169,15 @@ async function validateStreamPlaybackPolicy(
       `playbackPolicy type "lit_signing_condition" with a resourceId or unifiedAccessControlConditions is not supported for streams`
     );
   }
+  if (
+    playbackPolicy?.availableFrom &&
+    playbackPolicy?.availableUntil &&
+    playbackPolicy.availableFrom >= playbackPolicy.availableUntil
+  ) {
+    throw new BadRequestError(
+      `playbackPolicy.availableFrom must be before availableUntil`
+    );
+  }
   if (playbackPolicy?.type == "webhook") {
     let webhook = await db.webhook.get(playbackPolicy.webhookId);
     if (!webhook || webhook.deleted) {
@@ -340,6 +357,9 @@ app.get("/", authorizer({}), async (req, res) => {
   if (userId) {
     query.push(sql`stream.data->>'userId' = ${userId}`);
   }
+  if (req.project) {
+    query.push(sql`stream.data->>'projectId' = ${req.project.id}`);
+  }
 
   if (!order) {
     order = "lastSeen-true,createdAt-true";
@@ -494,7 +514,8 @@ app.get("/:parentId/sessions", authorizer({}), async (req, res) => {
   if (
     !stream ||
     (stream.deleted && !req.isUIAdmin) ||
-    (stream.userId !== req.user.id && !req.isUIAdmin)
+    ((stream.userId !== req.user.id || !isInProject(req, stream)) &&
+      !req.isUIAdmin)
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
@@ -578,7 +599,8 @@ app.get("/sessions/:parentId", authorizer({}), async (req, res) => {
   if (
     !stream ||
     stream.deleted ||
-    (stream.userId !== req.user.id && !req.isUIAdmin)
+    ((stream.userId !== req.user.id || !isInProject(req, stream)) &&
+      !req.isUIAdmin)
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
@@ -616,6 +638,9 @@ app.get("/user/:userId", authorizer({}), async (req, res) => {
     sql`data->>'deleted' IS NULL`,
     sql`data->>'userId' = ${userId}`,
   ];
+  if (req.project) {
+    query.push(sql`data->>'projectId' = ${req.project.id}`);
+  }
   if (streamsonly) {
     query.push(sql`data->>'parentId' IS NULL`);
   } else if (sessionsonly) {
@@ -652,7 +677,10 @@ app.get("/:id", authorizer({}), async (req, res) => {
   let stream = await db.stream.get(req.params.id);
   if (
     !stream ||
-    ((stream.userId !== req.user.id || stream.deleted) && !req.user.admin)
+    ((stream.userId !== req.user.id ||
+      stream.deleted ||
+      !isInProject(req, stream)) &&
+      !req.user.admin)
   ) {
     // do not reveal that stream exists
     res.status(404);
@@ -695,7 +723,10 @@ app.get("/playback/:playbackId", authorizer({}), async (req, res) => {
   });
   if (
     !stream ||
-    ((stream.userId !== req.user.id || stream.deleted) && !req.user.admin)
+    ((stream.userId !== req.user.id ||
+      stream.deleted ||
+      !isInProject(req, stream)) &&
+      !req.user.admin)
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
@@ -717,7 +748,10 @@ app.get("/key/:streamKey", authorizer({}), async (req, res) => {
   );
   if (
     !docs.length ||
-    ((docs[0].userId !== req.user.id || docs[0].deleted) && !req.user.admin)
+    ((docs[0].userId !== req.user.id ||
+      docs[0].deleted ||
+      !isInProject(req, docs[0])) &&
+      !req.user.admin)
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
@@ -796,6 +830,7 @@ app.post(
       ...req.body,
       kind: "stream",
       userId: stream.userId,
+      projectId: stream.projectId,
       renditions: {},
       objectStoreId: stream.objectStoreId,
       record,
@@ -823,6 +858,7 @@ app.post(
         parentId: stream.id,
         playbackId: stream.playbackId,
         userId: stream.userId,
+        projectId: stream.projectId,
         kind: "session",
         version: "v2",
         name: req.body.name,
@@ -870,6 +906,17 @@ app.post(
   }
 );
 
+function summarizeTracks(tracks: StreamHealthPayload["tracks"]) {
+  return Object.entries(tracks ?? {}).map(([id, track]) => ({
+    id,
+    codec: track.codec,
+    kbits: track.kbits,
+    fps: track.fpks ? track.fpks / 1000 : undefined,
+    width: track.width,
+    height: track.height,
+  }));
+}
+
 app.post(
   "/hook/health",
   authorizer({ anyAdmin: true }),
@@ -921,6 +968,38 @@ app.post(
       }
     }
 
+    // only notify transitions, so an unhealthy stream isn't reported again on
+    // every health hook and a healthy one only after it had been unhealthy.
+    const healthEvent =
+      patch.isHealthy === false && stream.isHealthy !== false
+        ? "stream.unhealthy"
+        : patch.isHealthy === true && stream.isHealthy === false
+        ? "stream.healthy"
+        : null;
+    if (healthEvent) {
+      await req.queue
+        .publishWebhook(`events.${healthEvent}`, {
+          type: "webhook_event",
+          id: uuid(),
+          timestamp: Date.now(),
+          streamId: stream.id,
+          sessionId: payload.session_id,
+          event: healthEvent,
+          userId: stream.userId,
+          payload: {
+            isHealthy: patch.isHealthy,
+            issues: issues ?? [],
+            tracks: summarizeTracks(payload.tracks),
+          },
+        })
+        .catch((err) => {
+          logger.error(
+            `Error sending stream health hook stream_id=${stream.id} event=${healthEvent} err=`,
+            err
+          );
+        });
+    }
+
     // Log all the received payload for internal debugging (we don't expose all
     // the info on the stream object for now).
     console.log(
@@ -941,6 +1020,7 @@ app.post(
   "/",
   authorizer({}),
   validatePost("new-stream-payload"),
+  idempotent(),
   async (req, res) => {
     const payload = req.body as NewStreamPayload;
 
@@ -967,6 +1047,7 @@ app.post(
       ...payload,
       kind: "stream",
       userId: req.user.id,
+      projectId: req.project?.id,
       creatorId: mapInputCreatorId(payload.creatorId),
       renditions: {},
       objectStoreId,
@@ -976,6 +1057,7 @@ app.post(
       playbackId,
       createdByTokenName: req.token?.name,
       createdByTokenId: req.token?.id,
+      createdByUserId: req.member?.userId,
       isActive: false,
       lastSeen: 0,
     };
@@ -986,6 +1068,7 @@ app.post(
     doc.profiles = hackMistSettings(req, doc.profiles);
     doc.multistream = await validateMultistreamOpts(
       req.user.id,
+      req.project?.id,
       doc.profiles,
       doc.multistream
     );
@@ -1152,6 +1235,17 @@ async function setStreamActiveWithHooks(
           err
         );
       });
+
+    if (stream.isActive && !patch.isActive) {
+      await publishSessionEndedHook(config, stream, queue, ingest).catch(
+        (err) => {
+          logger.error(
+            `Error sending session.ended hook stream_id=${stream.id} err=`,
+            err
+          );
+        }
+      );
+    }
   }
 
   // opportunistically trigger recording.waiting logic for this stream's sessions
@@ -1233,6 +1327,30 @@ async function publishSingleRecordingWaitingHook(
   await publishDelayedRecordingWaitingHook(config, session, queue, ingest);
 }
 
+async function publishSessionEndedHook(
+  config: CliArgs,
+  stream: DBStream,
+  queue: Queue,
+  ingest: string
+) {
+  const session = await db.session.getLastSession(stream.id, {
+    useReplica: false,
+  });
+  if (!session) {
+    return;
+  }
+  return queue.publishWebhook("events.session.ended", {
+    type: "webhook_event",
+    id: uuid(),
+    timestamp: Date.now(),
+    streamId: stream.id,
+    sessionId: session.id,
+    userId: session.userId,
+    event: "session.ended",
+    payload: { session: await toExternalSession(config, session, ingest) },
+  });
+}
+
 async function publishRecordingStartedHook(
   config: CliArgs,
   session: DBSession,
@@ -1338,7 +1456,9 @@ app.patch(
     const stream = await db.stream.get(id);
 
     const exists = stream && !stream.deleted;
-    const hasAccess = stream?.userId === req.user.id || req.isUIAdmin;
+    const hasAccess =
+      (stream?.userId === req.user.id && isInProject(req, stream)) ||
+      req.isUIAdmin;
     if (!exists || !hasAccess) {
       res.status(404);
       return res.json({ errors: ["not found"] });
@@ -1379,6 +1499,7 @@ app.patch(
     if (multistream) {
       multistream = await validateMultistreamOpts(
         req.user.id,
+        req.project?.id,
         stream.profiles,
         multistream
       );
@@ -1445,7 +1566,8 @@ app.delete("/:id", authorizer({}), async (req, res) => {
   if (
     !stream ||
     stream.deleted ||
-    (stream.userId !== req.user.id && !req.user.admin)
+    ((stream.userId !== req.user.id || !isInProject(req, stream)) &&
+      !req.user.admin)
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
@@ -1475,7 +1597,7 @@ app.delete("/", authorizer({}), async (req, res) => {
     const streams = await db.stream.getMany(ids);
     if (
       streams.length !== ids.length ||
-      streams.some((s) => s.userId !== req.user.id)
+      streams.some((s) => s.userId !== req.user.id || !isInProject(req, s))
     ) {
       res.status(404);
       return res.json({ errors: ["not found"] });
@@ -1508,7 +1630,10 @@ app.get("/:id/info", authorizer({}), async (req, res) => {
   }
   if (
     !stream ||
-    (!req.user.admin && (stream.deleted || stream.userId !== req.user.id))
+    (!req.user.admin &&
+      (stream.deleted ||
+        stream.userId !== req.user.id ||
+        !isInProject(req, stream)))
   ) {
     res.status(404);
     return res.json({
@@ -1555,7 +1680,10 @@ app.patch("/:id/suspended", authorizer({}), async (req, res) => {
   const stream = await db.stream.get(id);
   if (
     !stream ||
-    (!req.user.admin && (stream.deleted || stream.userId !== req.user.id))
+    (!req.user.admin &&
+      (stream.deleted ||
+        stream.userId !== req.user.id ||
+        !isInProject(req, stream)))
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
@@ -1574,7 +1702,10 @@ app.delete("/:id/terminate", authorizer({}), async (req, res) => {
   const stream = await db.stream.get(id);
   if (
     !stream ||
-    (!req.user.admin && (stream.deleted || stream.userId !== req.user.id))
+    (!req.user.admin &&
+      (stream.deleted ||
+        stream.userId !== req.user.id ||
+        !isInProject(req, stream)))
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
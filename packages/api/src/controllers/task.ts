@@ -13,6 +13,7 @@ import {
   reqUseReplica,
   deleteCredentials,
   sqlQueryGroup,
+  isInProject,
 } from "./helpers";
 import { db } from "../store";
 import sql from "sql-template-strings";
@@ -210,6 +211,9 @@ app.get("/", authorizer({}), async (req, res) => {
 
   const query = parseFilters(fieldsMap, filters);
   query.push(sql`task.data->>'userId' = ${req.user.id}`);
+  if (req.project) {
+    query.push(sql`task.data->>'projectId' = ${req.project.id}`);
+  }
 
   if (!all || all === "false") {
     query.push(sql`task.data->>'deleted' IS NULL`);
@@ -247,7 +251,7 @@ app.get("/:id", authorizer({}), async (req, res) => {
   const task = await db.task.get(req.params.id, {
     useReplica: reqUseReplica(req),
   });
-  if (!task) {
+  if (!task || !isInProject(req, task)) {
     res.status(404);
     return res.json({
       errors: ["not found"],
@@ -282,7 +286,7 @@ app.post(
 app.post("/:id/retry", authorizer({}), async (req, res) => {
   const { id } = req.params;
   const task = await db.task.get(id, { useReplica: false });
-  if (!task) {
+  if (!task || !isInProject(req, task)) {
     return res.status(404).json({ errors: ["task not found"] });
   } else if (!["failed", "cancelled"].includes(task.status?.phase)) {
     return res
@@ -397,7 +401,7 @@ app.post("/:id/status", authorizer({ anyAdmin: true }), async (req, res) => {
 app.delete("/:id", authorizer({ anyAdmin: true }), async (req, res) => {
   const { id } = req.params;
   const task = await db.task.get(id);
-  if (!task) {
+  if (!task || !isInProject(req, task)) {
     res.status(404);
     return res.json({ errors: ["not found"] });
   }
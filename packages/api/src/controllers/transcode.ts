@@ -1,4 +1,4 @@
-import { authorizer, validatePost } from "../middleware";
+import { authorizer, idempotent, validatePost } from "../middleware";
 import { Router } from "express";
 import { TranscodePayload } from "../schema/types";
 import {
@@ -17,6 +17,7 @@ app.post(
   "/",
   authorizer({}),
   validatePost("transcode-payload"),
+  idempotent(),
   async (req, res) => {
     const params = req.body as TranscodePayload;
     const { catalystPipelineStrategy = undefined } = req.user.admin
@@ -69,7 +70,9 @@ app.post(
       },
       null,
       null,
-      req.user.id
+      req.user.id,
+      undefined,
+      req.project?.id
     );
     res.json(task);
   }
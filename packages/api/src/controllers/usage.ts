@@ -6,7 +6,7 @@ import fetch from "node-fetch";
 import qs from "qs";
 import { NotFoundError } from "../store/errors";
 import { WithID } from "../store/types";
-import { User } from "../schema/types";
+import { ProjectUsage, User } from "../schema/types";
 import { Ingest } from "../types/common";
 import { reportUsage } from "./stripe";
 import sql from "sql-template-strings";
@@ -195,12 +195,43 @@ export async function getRecentlyActiveHackers(req: Request) {
   return activeHackers;
 }
 
+/**
+ * Returns the usage of the resources of a project in the given time range. It
+ * is aggregated from the sessions of the project's streams and the assets
+ * stored at the end of the range. Delivery is only measured for the account as
+ * a whole by the usage service, so it is not included.
+ */
+export async function getProjectUsage(
+  projectId: string,
+  fromTime: number,
+  toTime: number
+): Promise<ProjectUsage> {
+  const [sourceDuration, storedDuration] = await Promise.all([
+    db.session.projectSourceDuration(projectId, fromTime, toTime, {
+      useReplica: true,
+    }),
+    db.asset.projectStoredDuration(projectId, toTime, { useReplica: true }),
+  ]);
+  return {
+    projectId,
+    TotalUsageMins: sourceDuration / 60,
+    StorageUsageMins: storedDuration / 60,
+  };
+}
+
+/**
+ * Returns the usage of the user in the billing cycle, along with how much it
+ * is over the limits of their plan. If a project is given, the usage of its
+ * resources is returned as well, but limits still apply to the account as a
+ * whole.
+ */
 export async function getUsageData(
   user: WithID<User>,
   billingCycleStart: number,
   billingCycleEnd: number,
   ingests: Ingest[],
-  adminToken: string
+  adminToken: string,
+  projectId?: string
 ) {
   const billingUsage = await getBillingUsage(
     user.id,
@@ -220,10 +251,15 @@ export async function getUsageData(
     billingUsage
   );
 
+  const projectUsage = projectId
+    ? await getProjectUsage(projectId, billingCycleStart, billingCycleEnd)
+    : undefined;
+
   return {
     billingUsage,
     overUsage,
     usagePercentages,
+    projectUsage,
   };
 }
 
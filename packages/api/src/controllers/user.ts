@@ -19,6 +19,7 @@ import {
   User,
   SuspendUserPayload,
   DisableUserPayload,
+  RateLimitUserPayload,
 } from "../schema/types";
 import { db } from "../store";
 import { InternalServerError, NotFoundError } from "../store/errors";
@@ -594,6 +595,44 @@ app.patch(
   }
 );
 
+// Overrides the rate limit of the plan of the user, e.g. to allow an
+// integration that needs more requests.
+app.patch(
+  "/:id/rate-limit",
+  validatePost("rate-limit-user-payload"),
+  authorizer({ anyAdmin: true }),
+  async (req, res) => {
+    const { rateLimit } = req.body as RateLimitUserPayload;
+    const { id } = req.params;
+    const user = await db.user.get(id);
+    if (!user) {
+      return res.status(404).json({ errors: ["not found"] });
+    }
+
+    logger.info(`set user ${id} (${user.email}) rate limit ${rateLimit}`);
+    await db.user.update(id, { rateLimit });
+    res.status(204);
+    res.end();
+  }
+);
+
+app.delete(
+  "/:id/rate-limit",
+  authorizer({ anyAdmin: true }),
+  async (req, res) => {
+    const { id } = req.params;
+    const user = await db.user.get(id);
+    if (!user) {
+      return res.status(404).json({ errors: ["not found"] });
+    }
+
+    logger.info(`reset user ${id} (${user.email}) rate limit to plan default`);
+    await db.user.update(id, { rateLimit: null });
+    res.status(204);
+    res.end();
+  }
+);
+
 app.post("/token", validatePost("user"), async (req, res) => {
   const user = await findUserByEmail(req.body.email);
   const [hashedPassword] = await hash(req.body.password, user.salt);
@@ -881,7 +920,7 @@ app.post(
 
 app.post(
   "/update-customer-payment-method",
-  authorizer({ noApiToken: true }),
+  authorizer({ noApiToken: true, memberRole: "admin" }),
   validatePost("update-customer-payment-method"),
   requireStripe(),
   async (req, res) => {
@@ -1001,7 +1040,7 @@ app.post(
 
 app.post(
   "/update-subscription",
-  authorizer({ noApiToken: true }),
+  authorizer({ noApiToken: true, memberRole: "admin" }),
   validatePost("update-subscription"),
   requireStripe(),
   async (req, res) => {
@@ -1139,7 +1178,7 @@ app.post(
 
 app.post(
   "/retrieve-subscription",
-  authorizer({ noApiToken: true }),
+  authorizer({ noApiToken: true, memberRole: "admin" }),
   requireStripe(),
   async (req, res) => {
     let { stripeCustomerSubscriptionId } = req.body;
@@ -1157,7 +1196,7 @@ app.post(
 
 app.post(
   "/retrieve-invoices",
-  authorizer({ noApiToken: true }),
+  authorizer({ noApiToken: true, memberRole: "admin" }),
   requireStripe(),
   async (req, res) => {
     let { stripeCustomerId } = req.body;
@@ -1173,7 +1212,7 @@ app.post(
 
 app.post(
   "/retrieve-upcoming-invoice",
-  authorizer({ noApiToken: true }),
+  authorizer({ noApiToken: true, memberRole: "admin" }),
   requireStripe(),
   async (req, res) => {
     let { stripeCustomerId } = req.body;
@@ -1198,7 +1237,7 @@ app.post(
 
 app.post(
   "/retrieve-payment-method",
-  authorizer({ noApiToken: true }),
+  authorizer({ noApiToken: true, memberRole: "admin" }),
   requireStripe(),
   async (req, res) => {
     let { stripePaymentMethodId } = req.body;
@@ -1,5 +1,7 @@
 import serverPromise from "../test-server";
 import { TestClient, clearDatabase } from "../test-helpers";
+import { sign } from "./helpers";
+import { webhookSignatureHeaders } from "../webhooks/cannon";
 
 let server;
 let mockAdminUser;
@@ -207,6 +209,70 @@ describe("controllers/webhook", () => {
       expect(res.status).toBe(204);
     });
 
+    it("rotate the secret of a webhook", async () => {
+      const { id } = generatedWebhook;
+      const res = await client.post(`/webhook/${id}/rotate-secret`, {
+        gracePeriod: 3600,
+      });
+      expect(res.status).toBe(200);
+      const { sharedSecret, previousSharedSecretExpiresAt } = await res.json();
+      expect(sharedSecret).not.toEqual(mockWebhook.sharedSecret);
+      expect(previousSharedSecretExpiresAt).toBeGreaterThan(
+        Date.now() + 3500 * 1000
+      );
+
+      const fromDb = await server.db.webhook.get(id);
+      expect(fromDb).toMatchObject({
+        sharedSecret,
+        previousSharedSecret: mockWebhook.sharedSecret,
+        previousSharedSecretExpiresAt,
+      });
+
+      const timestamp = Date.now();
+      const headers = webhookSignatureHeaders("{}", fromDb, timestamp);
+      expect(headers["Livepeer-Signature"]).toEqual(
+        `t=${timestamp},v1=${sign("{}", sharedSecret)},v1=${sign(
+          "{}",
+          mockWebhook.sharedSecret
+        )}`
+      );
+      const expired = webhookSignatureHeaders(
+        "{}",
+        fromDb,
+        previousSharedSecretExpiresAt
+      );
+      expect(expired["Livepeer-Signature"]).toEqual(
+        `t=${previousSharedSecretExpiresAt},v1=${sign("{}", sharedSecret)}`
+      );
+    });
+
+    it("keep the server managed fields of a webhook on update", async () => {
+      const { id } = generatedWebhook;
+      let res = await client.post(`/webhook/${id}/rotate-secret`, {
+        gracePeriod: 3600,
+      });
+      const { sharedSecret } = await res.json();
+      await server.db.webhook.updateFailureStreak(id, true, Date.now());
+      await server.db.webhook.disable(id, "test");
+
+      res = await client.put(`/webhook/${id}`, {
+        ...generatedWebhook,
+        sharedSecret,
+        name: "modified_name",
+        disabled: false,
+      });
+      expect(res.status).toBe(200);
+
+      const updated = await server.db.webhook.get(id);
+      expect(updated).toMatchObject({
+        name: "modified_name",
+        previousSharedSecret: mockWebhook.sharedSecret,
+        disabled: false,
+        status: { consecutiveFailures: 0 },
+      });
+      expect(updated.disabledReason).toBeUndefined();
+    });
+
     it("disallows setting webhook for another user", async () => {
       const { id } = generatedWebhook;
       const modifiedHook = { ...generatedWebhook, userId: nonAdminUser.id };
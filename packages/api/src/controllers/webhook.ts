@@ -1,15 +1,31 @@
 import { URL } from "url";
 import { authorizer } from "../middleware";
 import { validatePost } from "../middleware";
+import { Request } from "express";
 import Router from "express/lib/router";
 import logger from "../logger";
 import { v4 as uuid } from "uuid";
-import { makeNextHREF, parseFilters, parseOrder, FieldsMap } from "./helpers";
+import {
+  makeNextHREF,
+  parseFilters,
+  parseOrder,
+  FieldsMap,
+  isInProject,
+} from "./helpers";
 import { db } from "../store";
 import sql from "sql-template-strings";
-import { UnprocessableEntityError, NotFoundError } from "../store/errors";
-import { WebhookStatusPayload } from "../schema/types";
+import {
+  UnprocessableEntityError,
+  NotFoundError,
+  BadRequestError,
+} from "../store/errors";
+import {
+  WebhookRotateSecretPayload,
+  WebhookStatusPayload,
+  WebhookTestPayload,
+} from "../schema/types";
 import { DBWebhook } from "../store/webhook-table";
+import { sampleWebhookTrigger } from "../webhooks/samples";
 
 function validateWebhookPayload(id, userId, createdAt, payload) {
   try {
@@ -25,6 +41,8 @@ function validateWebhookPayload(id, userId, createdAt, payload) {
     );
   }
 
+  validateWebhookFormat(payload.format, payload.template);
+
   return {
     id,
     userId,
@@ -35,9 +53,51 @@ function validateWebhookPayload(id, userId, createdAt, payload) {
     url: payload.url,
     sharedSecret: payload.sharedSecret,
     streamId: payload.streamId,
+    filters: payload.filters,
+    format: payload.format,
+    template: payload.template,
+    disabled: payload.disabled,
   };
 }
 
+function validateWebhookFormat(format: string, template: object) {
+  if (format === "template" && !template) {
+    throw new UnprocessableEntityError(
+      `must provide "template" field for the template format`
+    );
+  }
+}
+
+async function getWebhook(req: Request) {
+  const webhook = await db.webhook.get(req.params.id);
+  if (
+    !webhook ||
+    ((webhook.deleted ||
+      webhook.userId !== req.user.id ||
+      !isInProject(req, webhook)) &&
+      !req.user.admin)
+  ) {
+    throw new NotFoundError(`webhook not found`);
+  }
+  return webhook;
+}
+
+// Disables or re-enables the webhook as requested by its owner.
+async function setDisabled(webhook: DBWebhook, disabled?: boolean) {
+  if (disabled === false && webhook.disabled) {
+    // also resets the failure streak so it isn't disabled again right away
+    await db.webhook.enable(webhook.id);
+  } else if (disabled && !webhook.disabled) {
+    await db.webhook.update(webhook.id, { disabled });
+  }
+}
+
+// Maximum amount of events that can be replayed to a webhook in one request.
+const MAX_REPLAY_EVENTS = 500;
+
+// Default time (in seconds) for which the previous secret is kept on rotation.
+const DEFAULT_SECRET_GRACE_PERIOD = 24 * 60 * 60;
+
 const app = Router();
 
 const fieldsMap: FieldsMap = {
@@ -52,6 +112,14 @@ const fieldsMap: FieldsMap = {
   sharedSecret: `webhook.data->>'sharedSecret'`,
 };
 
+const logFieldsMap: FieldsMap = {
+  id: `webhook_response.ID`,
+  eventId: `webhook_response.data->>'eventId'`,
+  event: `webhook_response.data->>'event'`,
+  statusCode: { val: `webhook_response.data->'statusCode'`, type: "int" },
+  createdAt: { val: `webhook_response.data->'createdAt'`, type: "int" },
+};
+
 app.get("/", authorizer({}), async (req, res) => {
   let { limit, cursor, all, event, allUsers, order, filters, count } =
     req.query;
@@ -95,6 +163,9 @@ app.get("/", authorizer({}), async (req, res) => {
 
   const query = parseFilters(fieldsMap, filters);
   query.push(sql`webhook.data->>'userId' = ${req.user.id}`);
+  if (req.project) {
+    query.push(sql`webhook.data->>'projectId' = ${req.project.id}`);
+  }
 
   if (!all || all === "false") {
     query.push(sql`webhook.data->>'deleted' IS NULL`);
@@ -144,7 +215,11 @@ app.get("/subscribed/:event", authorizer({}), async (req, res) => {
 
 app.post("/", authorizer({}), validatePost("webhook"), async (req, res) => {
   const id = uuid();
-  const doc = validateWebhookPayload(id, req.user.id, Date.now(), req.body);
+  const doc = {
+    ...validateWebhookPayload(id, req.user.id, Date.now(), req.body),
+    projectId: req.project?.id,
+    createdByUserId: req.member?.userId,
+  };
   try {
     await req.store.create(doc);
   } catch (e) {
@@ -162,7 +237,10 @@ app.get("/:id", authorizer({}), async (req, res) => {
   const webhook = await db.webhook.get(req.params.id);
   if (
     !webhook ||
-    ((webhook.deleted || webhook.userId !== req.user.id) && !req.user.admin)
+    ((webhook.deleted ||
+      webhook.userId !== req.user.id ||
+      !isInProject(req, webhook)) &&
+      !req.user.admin)
   ) {
     res.status(404);
     return res.json({ errors: ["not found"] });
@@ -172,23 +250,263 @@ app.get("/:id", authorizer({}), async (req, res) => {
   res.json(webhook);
 });
 
+app.get("/:id/log", authorizer({}), async (req, res) => {
+  let { limit, cursor, event, success, order, filters, count } = req.query;
+  if (isNaN(parseInt(limit))) {
+    limit = undefined;
+  }
+  if (!order) {
+    order = "createdAt-true";
+  }
+
+  const webhook = await getWebhook(req);
+
+  const query = parseFilters(logFieldsMap, filters);
+  query.push(sql`webhook_response.data->>'webhookId' = ${webhook.id}`);
+  if (event) {
+    query.push(sql`webhook_response.data->>'event' = ${event}`);
+  }
+  if (success === "true" || success === "false") {
+    const successful = sql``.append(
+      `coalesce((webhook_response.data->>'statusCode')::int, 0) BETWEEN 200 AND 299`
+    );
+    query.push(success === "true" ? successful : sql`NOT `.append(successful));
+  }
+
+  let fields = " webhook_response.id as id, webhook_response.data as data";
+  if (count) {
+    fields = fields + ", count(*) OVER() AS count";
+  }
+  const [output, newCursor] = await db.webhookResponse.find(query, {
+    limit,
+    cursor,
+    fields,
+    from: `webhook_response`,
+    order: parseOrder(logFieldsMap, order),
+    process: ({ data, count: c }) => {
+      if (count) {
+        res.set("X-Total-Count", c);
+      }
+      return { ...data };
+    },
+  });
+
+  res.status(200);
+
+  if (output.length > 0 && newCursor) {
+    res.links({ next: makeNextHREF(req, newCursor) });
+  }
+  return res.json(output);
+});
+
+app.get("/:id/trigger", authorizer({}), async (req, res) => {
+  let { limit, cursor } = req.query;
+  if (isNaN(parseInt(limit))) {
+    limit = undefined;
+  }
+
+  const webhook = await getWebhook(req);
+  const [output, newCursor] = await db.webhookTrigger.find(
+    [sql`data->>'webhookId' = ${webhook.id}`],
+    { limit, cursor, order: `data->'createdAt' DESC` }
+  );
+
+  res.status(200);
+  if (output.length > 0 && newCursor) {
+    res.links({ next: makeNextHREF(req, newCursor) });
+  }
+  return res.json(output);
+});
+
+app.get("/:id/trigger/:triggerId", authorizer({}), async (req, res) => {
+  const webhook = await getWebhook(req);
+  const trigger = await db.webhookTrigger.get(req.params.triggerId);
+  if (!trigger || trigger.webhookId !== webhook.id) {
+    throw new NotFoundError(`webhook trigger not found`);
+  }
+
+  res.status(200);
+  res.json(trigger);
+});
+
+app.post("/:id/trigger/:triggerId/resend", authorizer({}), async (req, res) => {
+  const webhook = await getWebhook(req);
+  const trigger = await db.webhookTrigger.get(req.params.triggerId, {
+    useReplica: false,
+  });
+  if (!trigger || trigger.webhookId !== webhook.id) {
+    throw new NotFoundError(`webhook trigger not found`);
+  }
+
+  const user = await db.user.get(webhook.userId);
+  if (!user || user.suspended) {
+    throw new UnprocessableEntityError(`webhook owner is not active`);
+  }
+
+  // the payload gets signed by the cannon with the current shared secret
+  // from the webhook object, so we send the latest one from the DB.
+  await req.queue.publishWebhook("webhooks.triggers", {
+    type: "webhook_trigger",
+    id: uuid(),
+    timestamp: Date.now(),
+    streamId: trigger.event.streamId,
+    event: trigger.event,
+    stream: trigger.stream,
+    user,
+    webhook,
+  });
+  await db.webhookTrigger.update(trigger.id, { lastResentAt: Date.now() });
+
+  res.status(204).end();
+});
+
+app.post("/:id/replay", authorizer({}), async (req, res) => {
+  const webhook = await getWebhook(req);
+  const from = parseInt(req.query.from);
+  const to = req.query.to ? parseInt(req.query.to) : Date.now();
+  if (isNaN(from) || isNaN(to) || from >= to) {
+    throw new BadRequestError(
+      `"from" and "to" must be timestamps in milliseconds with "from" before "to"`
+    );
+  }
+  if (webhook.disabled) {
+    throw new UnprocessableEntityError(`webhook is disabled`);
+  }
+
+  const user = await db.user.get(webhook.userId);
+  if (!user || user.suspended) {
+    throw new UnprocessableEntityError(`webhook owner is not active`);
+  }
+
+  const query = [
+    sql`data->>'userId' = ${webhook.userId}`,
+    sql`data->>'event' = ANY(${webhook.events})`,
+    sql`(data->>'createdAt')::bigint >= ${from}`,
+    sql`(data->>'createdAt')::bigint < ${to}`,
+  ];
+  if (webhook.projectId) {
+    query.push(sql`data->>'projectId' = ${webhook.projectId}`);
+  }
+  const [events] = await db.webhookEvent.find(query, {
+    limit: MAX_REPLAY_EVENTS + 1,
+    order: `data->'createdAt' ASC`,
+  });
+  if (events.length > MAX_REPLAY_EVENTS) {
+    throw new UnprocessableEntityError(
+      `too many events in the time range, at most ${MAX_REPLAY_EVENTS} can be replayed at once`
+    );
+  }
+
+  const replayed = await req.webhookCannon.replayEvents(
+    webhook,
+    user,
+    events.map((e) => db.webhookEvent.toMessage(e))
+  );
+
+  res.status(200);
+  res.json({ replayed });
+});
+
+app.post(
+  "/:id/rotate-secret",
+  authorizer({}),
+  validatePost("webhook-rotate-secret-payload"),
+  async (req, res) => {
+    const webhook = await getWebhook(req);
+    const { gracePeriod = DEFAULT_SECRET_GRACE_PERIOD } =
+      req.body as WebhookRotateSecretPayload;
+
+    // the previous secret keeps being used to sign payloads until it expires,
+    // so receivers can switch to the new one without rejecting deliveries.
+    const now = Date.now();
+    const sharedSecret = uuid();
+    const previousSharedSecretExpiresAt = webhook.sharedSecret
+      ? now + gracePeriod * 1000
+      : now;
+    await db.webhook.update(webhook.id, {
+      sharedSecret,
+      previousSharedSecret: webhook.sharedSecret,
+      previousSharedSecretExpiresAt,
+    });
+
+    res.status(200);
+    res.json({ sharedSecret, previousSharedSecretExpiresAt });
+  }
+);
+
+app.post(
+  "/:id/test",
+  authorizer({}),
+  validatePost("webhook-test-payload"),
+  async (req, res) => {
+    const webhook = await getWebhook(req);
+    const { event } = req.body as WebhookTestPayload;
+    if (event === "playback.accessControl") {
+      throw new UnprocessableEntityError(
+        `event ${event} is not delivered through webhooks and can't be tested`
+      );
+    }
+
+    const user = await db.user.get(webhook.userId);
+    if (!user || user.suspended) {
+      throw new UnprocessableEntityError(`webhook owner is not active`);
+    }
+
+    const trigger = sampleWebhookTrigger(webhook, user, event);
+    const result = await req.webhookCannon.fireTestHook(trigger);
+    if (!result) {
+      throw new UnprocessableEntityError(
+        `webhook url ${webhook.url} resolves to a local address`
+      );
+    }
+
+    const { statusCode = 0, errorMessage } = result;
+    res.status(200);
+    res.json({ statusCode, errorMessage });
+  }
+);
+
 app.put("/:id", authorizer({}), validatePost("webhook"), async (req, res) => {
   // modify a specific webhook
-  const webhook = await req.store.get(`webhook/${req.body.id}`);
-  if ((webhook.userId !== req.user.id || webhook.deleted) && !req.user.admin) {
+  const webhook: DBWebhook = await req.store.get(`webhook/${req.body.id}`);
+  if (
+    !webhook ||
+    ((webhook.userId !== req.user.id ||
+      webhook.deleted ||
+      !isInProject(req, webhook)) &&
+      !req.user.admin)
+  ) {
     // do not reveal that webhooks exists
     res.status(404);
     return res.json({ errors: ["not found"] });
   }
 
   const { id, userId, createdAt } = webhook;
-  const doc = validateWebhookPayload(id, userId, createdAt, req.body);
+  const { disabled, ...fields } = validateWebhookPayload(
+    id,
+    userId,
+    createdAt,
+    req.body
+  );
+  // fields managed by the server are kept, like the delivery status or the
+  // previous secret that is still accepted while rotating it
+  const doc = {
+    ...fields,
+    projectId: webhook.projectId,
+    createdByUserId: webhook.createdByUserId,
+    status: webhook.status,
+    disabled: webhook.disabled,
+    disabledReason: webhook.disabledReason,
+    previousSharedSecret: webhook.previousSharedSecret,
+    previousSharedSecretExpiresAt: webhook.previousSharedSecretExpiresAt,
+  };
   try {
     await req.store.replace(doc);
   } catch (e) {
     console.error(e);
     throw e;
   }
+  await setDisabled(webhook, disabled);
   res.status(200);
   res.json({ id: req.body.id });
 });
@@ -205,7 +523,9 @@ app.patch(
     }
 
     if (
-      (webhook.userId !== req.user.id || webhook.deleted) &&
+      (webhook.userId !== req.user.id ||
+        webhook.deleted ||
+        !isInProject(req, webhook)) &&
       !req.user.admin
     ) {
       // do not reveal that webhooks exists
@@ -221,14 +541,32 @@ app.patch(
       }
     }
 
-    const { name, events, url, sharedSecret, streamId } = req.body;
+    const {
+      name,
+      events,
+      url,
+      sharedSecret,
+      streamId,
+      filters,
+      format,
+      template,
+      disabled,
+    } = req.body;
+    validateWebhookFormat(
+      format ?? webhook.format,
+      template ?? webhook.template
+    );
     await db.webhook.update(req.params.id, {
       name,
       events,
       url,
       sharedSecret,
       streamId,
+      filters,
+      format,
+      template,
     });
+    await setDisabled(webhook, disabled);
 
     res.status(204).end();
   }
@@ -282,17 +620,25 @@ app.post(
       );
     }
 
-    // TODO : Change the response type and save the response making sure it's compatible object
-    /*await db.webhookResponse.create({
-      id: uuid(),
-      webhookId: webhook.id,
-      createdAt: Date.now(),
-      statusCode: response.statusCode,
-      response: {
-        body: response.response.body,
-        status: response.statusCode,
-      },
-    });*/
+    try {
+      await db.webhookResponse.create({
+        id: uuid(),
+        webhookId: webhook.id,
+        eventId: response.eventId,
+        event: response.event,
+        createdAt: response.createdAt ?? Date.now(),
+        duration: response.duration,
+        retries: response.retries,
+        statusCode: response.statusCode ?? 0,
+        errorMessage,
+        request: response.request,
+        response: response.response,
+      });
+    } catch (e) {
+      console.log(
+        `Unable to store response of webhook ${webhook.id} url: ${webhook.url}`
+      );
+    }
 
     res.status(204).end();
   }
@@ -303,7 +649,10 @@ app.delete("/:id", authorizer({}), async (req, res) => {
   const webhook = await db.webhook.get(req.params.id);
   if (
     !webhook ||
-    ((webhook.deleted || webhook.userId !== req.user.id) && !req.isUIAdmin)
+    ((webhook.deleted ||
+      webhook.userId !== req.user.id ||
+      !isInProject(req, webhook)) &&
+      !req.isUIAdmin)
   ) {
     // do not reveal that webhooks exists
     res.status(404);
@@ -333,7 +682,9 @@ app.delete("/", authorizer({}), async (req, res) => {
     const webhooks = await db.webhook.getMany(ids);
     if (
       webhooks.length !== ids.length ||
-      webhooks.some((s) => s.deleted || s.userId !== req.user.id)
+      webhooks.some(
+        (s) => s.deleted || s.userId !== req.user.id || !isInProject(req, s)
+      )
     ) {
       res.status(404);
       return res.json({ errors: ["not found"] });
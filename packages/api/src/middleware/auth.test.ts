@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { Response } from "node-fetch";
+import { v4 as uuid } from "uuid";
 import { authorizer } from ".";
 
 import { ApiToken, User } from "../schema/types";
@@ -339,6 +340,44 @@ describe("auth middleware", () => {
       await expectStatus("post", "/foo?hello=query").toBe(204);
     });
 
+    it("should limit scoped rules to the listed object ids", async () => {
+      await setAccess(nonAdminApiKey, [
+        { resources: ["stream/:id"], methods: ["get", "patch"], ids: ["abc"] },
+      ]);
+      await expectStatus("get", "/stream/abc").toBe(204);
+      await expectStatus("patch", "/stream/abc").toBe(204);
+      await expectStatus("delete", "/stream/abc").toBe(403);
+      await expectStatus("get", "/stream/xyz").toBe(403);
+
+      // scoped rules require an :id param to match the ids against
+      await setAccess(nonAdminApiKey, [
+        { resources: ["stream"], ids: ["abc"] },
+      ]);
+      await expectStatus("get", "/stream").toBe(403);
+    });
+
+    it("should limit scoped rules to the objects of the listed creators", async () => {
+      const createStream = (creatorId?: string) =>
+        db.stream.create({
+          id: uuid(),
+          userId: nonAdminUser.id,
+          ...(creatorId && {
+            creatorId: { type: "unverified", value: creatorId },
+          }),
+        } as any);
+      const tenantA = await createStream("tenant-a");
+      const tenantB = await createStream("tenant-b");
+      const noCreator = await createStream();
+
+      await setAccess(nonAdminApiKey, [
+        { resources: ["stream/:id", "asset/:id"], creatorIds: ["tenant-a"] },
+      ]);
+      await expectStatus("get", `/stream/${tenantA.id}`).toBe(204);
+      await expectStatus("get", `/stream/${tenantB.id}`).toBe(403);
+      await expectStatus("get", `/stream/${noCreator.id}`).toBe(403);
+      await expectStatus("get", `/asset/${tenantA.id}`).toBe(403);
+    });
+
     it("should authorize admin independently", async () => {
       await setAccess(nonAdminApiKey, [{ resources: ["admin/bra"] }]);
       await expectStatus("post", "/admin/bra").toBe(403);
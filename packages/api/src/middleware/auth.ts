@@ -5,17 +5,56 @@ import { Request, RequestHandler, Response } from "express";
 import jwt, { JwtPayload } from "jsonwebtoken";
 
 import { pathJoin2, trimPathPrefix } from "../controllers/helpers";
-import { ApiToken, User } from "../schema/types";
+import logger from "../logger";
+import { ApiToken, OrganizationMember, Project, User } from "../schema/types";
 import { db } from "../store";
-import { ForbiddenError, UnauthorizedError } from "../store/errors";
+import {
+  BadRequestError,
+  ExpiredTokenError,
+  ForbiddenError,
+  UnauthorizedError,
+} from "../store/errors";
 import { WithID } from "../store/types";
-import { AuthRule, AuthPolicy } from "./authPolicy";
+import { AuthRule, AuthRuleMatch, AuthPolicy } from "./authPolicy";
 import tracking from "./tracking";
 
 type AuthScheme = "jwt" | "bearer" | "basic";
 
 export const EMAIL_VERIFICATION_CUTOFF_DATE = 1695765600000;
 
+export const ORGANIZATION_HEADER = "livepeer-organization";
+export const PROJECT_HEADER = "livepeer-project";
+
+export type OrganizationRole = OrganizationMember["role"];
+
+// in increasing order of privileges
+const organizationRoles: OrganizationRole[] = [
+  "viewer",
+  "developer",
+  "admin",
+  "owner",
+];
+
+const readOnlyMethods = ["GET", "HEAD", "OPTIONS"];
+
+export function hasOrganizationRole(
+  role: OrganizationRole,
+  required: OrganizationRole
+) {
+  return organizationRoles.indexOf(role) >= organizationRoles.indexOf(required);
+}
+
+export async function getOrganizationMember(
+  organizationId: string,
+  userId: string
+) {
+  const [members] = await db.organizationMember.find(
+    { organizationId, userId },
+    { limit: 1 }
+  );
+  return members[0];
+}
+
 function parseAuthHeader(authHeader: string) {
   const match = authHeader?.match(/^\s*(\w+)\s+(.+)$/);
   if (!match) return {};
@@ -26,22 +65,45 @@ function parseAuthHeader(authHeader: string) {
   };
 }
 
-function isAuthorized(
+function matchAccessRule(
   method: string,
   path: string,
   rules: AuthRule[],
   httpPrefix?: string
-) {
+): AuthRuleMatch {
   try {
     const policy = new AuthPolicy(rules);
     if (httpPrefix) {
       path = trimPathPrefix(httpPrefix, path);
     }
-    return policy.allows(method, path);
+    return policy.match(method, path);
   } catch (err) {
     console.error(`error authorizing ${method} ${path}: ${err}`);
-    return false;
+    return null;
+  }
+}
+
+async function getCreatorId(resourceType: string, id: string) {
+  switch (resourceType) {
+    case "stream":
+      return (await db.stream.get(id))?.creatorId?.value;
+    case "asset":
+      return (await db.asset.get(id))?.creatorId?.value;
+  }
+  // other objects have no creator ID so they are never in scope
+  return undefined;
+}
+
+/**
+ * Checks that the object of the request is one of the creators the matched
+ * access rule is limited to, if any.
+ */
+async function isInCreatorScope({ rule, resourceType, params }: AuthRuleMatch) {
+  if (!rule.creatorIds) {
+    return true;
   }
+  const creatorId = await getCreatorId(resourceType, params.id);
+  return !!creatorId && rule.creatorIds.includes(creatorId);
 }
 
 /**
@@ -56,6 +118,15 @@ function isAuthorized(
  *    that user as the `password` (used by `go-livepeer` that only supports a
  *    URL to specify some endpoints like the stream auth webhook).
  *
+ * JWT requests can also send a `Livepeer-Organization` header with the ID of
+ * an organization the user is a member of. The request is then made on behalf
+ * of the organization account, which owns all of its resources, and the
+ * membership is set in `req.member` for the {@link authorizer} to check and
+ * for recording the member that created each resource.
+ *
+ * Requests with an API key bound to a project, or with a `Livepeer-Project`
+ * header, are scoped to that project, which is set in `req.project`.
+ *
  * @remarks
  * It is supposed to be used as a global middleware that runs for every request
  * and should be used in conjunction with the `authorizer` middleware below.
@@ -67,12 +138,16 @@ function isAuthorized(
 function authenticator(): RequestHandler {
   return async (req, res, next) => {
     res.vary("Authorization");
+    res.vary(ORGANIZATION_HEADER);
+    res.vary(PROJECT_HEADER);
     const authHeader = req.headers.authorization;
     const { authScheme, authToken, rawAuthScheme } =
       parseAuthHeader(authHeader);
     const basicUser = basicAuth.parse(authHeader);
     let user: User;
     let tokenObject: WithID<ApiToken>;
+    let member: WithID<OrganizationMember>;
+    let project: WithID<Project>;
     let userId: string;
 
     if (!authScheme) {
@@ -88,6 +163,12 @@ function authenticator(): RequestHandler {
       if (!tokenObject || (isBasic && !matchesBasicUser)) {
         throw new UnauthorizedError(`no token ${tokenId} found`);
       }
+      if (tokenObject.expiresAt && tokenObject.expiresAt <= Date.now()) {
+        const expiredAt = new Date(tokenObject.expiresAt).toISOString();
+        throw new ExpiredTokenError(
+          `token ${tokenId} expired at ${expiredAt}, create a new one as expired tokens cannot be rotated`
+        );
+      }
 
       userId = tokenObject.userId;
       // track last seen
@@ -118,7 +199,48 @@ function authenticator(): RequestHandler {
       throw new ForbiddenError(`user is suspended`);
     }
 
+    const organizationId = req.header(ORGANIZATION_HEADER);
+    if (organizationId) {
+      if (authScheme !== "jwt") {
+        throw new BadRequestError(
+          `${ORGANIZATION_HEADER} header is only supported with JWT auth, API keys already belong to an account`
+        );
+      }
+      member = await getOrganizationMember(organizationId, user.id);
+      const organization =
+        member && (await db.organization.get(organizationId));
+      if (!organization) {
+        throw new ForbiddenError(
+          `user is not a member of organization ${organizationId}`
+        );
+      }
+      user = await db.user.get(organization.userId);
+      if (!user || user.suspended) {
+        throw new ForbiddenError(`organization account is suspended`);
+      }
+      if (!readOnlyMethods.includes(req.method)) {
+        // keep track of who did what, as all members act as the same account
+        logger.info(
+          `auth: member userId=${member.userId} role=${member.role} of organization=${organizationId} acting as userId=${user.id} method=${req.method} path=${req.originalUrl}`
+        );
+      }
+    }
+
+    const headerProjectId = req.header(PROJECT_HEADER);
+    const projectId = tokenObject?.projectId ?? headerProjectId;
+    if (headerProjectId && headerProjectId !== projectId) {
+      throw new ForbiddenError(`credential is bound to project ${projectId}`);
+    }
+    if (projectId) {
+      project = await db.project.get(projectId);
+      if (!project || project.userId !== user.id) {
+        throw new ForbiddenError(`project ${projectId} not found`);
+      }
+    }
+
     req.user = user;
+    req.member = member;
+    req.project = project;
     // UI admins must have a JWT
     req.isUIAdmin = user.admin && authScheme === "jwt";
     req.token = tokenObject;
@@ -251,6 +373,11 @@ interface AuthzParams {
   anyAdmin?: boolean;
   noApiToken?: boolean;
   originalUriHeader?: string;
+  /**
+   * Minimum role required from organization members. Defaults to `viewer` for
+   * read-only methods and `developer` for the others.
+   */
+  memberRole?: OrganizationRole;
 }
 
 /**
@@ -303,6 +430,16 @@ function authorizer(params: AuthzParams): RequestHandler {
     if ((params.admin && !isUIAdmin) || (params.anyAdmin && !user.admin)) {
       throw new ForbiddenError(`user does not have admin priviledges`);
     }
+    if (req.member) {
+      const requiredRole =
+        params.memberRole ??
+        (readOnlyMethods.includes(req.method) ? "viewer" : "developer");
+      if (!hasOrganizationRole(req.member.role, requiredRole)) {
+        throw new ForbiddenError(
+          `organization ${req.member.role} role is not allowed to do this, requires ${requiredRole}`
+        );
+      }
+    }
     if (token?.access?.cors && req.user.admin) {
       throw new ForbiddenError(
         `cors access is not available to admins (how did you get this API key?)`
@@ -317,13 +454,24 @@ function authorizer(params: AuthzParams): RequestHandler {
         const originalUri = new URL(header?.toString() ?? "");
         fullPath = originalUri.pathname;
       }
-      if (!isAuthorized(req.method, fullPath, accessRules, httpPrefix)) {
+      const match = matchAccessRule(
+        req.method,
+        fullPath,
+        accessRules,
+        httpPrefix
+      );
+      if (!match) {
         throw new ForbiddenError(
           isRestrictedCors(token)
             ? "access forbidden for CORS-enabled API key with restricted access"
             : "credential has insufficent privileges"
         );
       }
+      if (!(await isInCreatorScope(match))) {
+        throw new ForbiddenError(
+          "credential is not allowed to access this creator's resources"
+        );
+      }
     }
     return next();
   };
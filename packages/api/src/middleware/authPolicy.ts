@@ -3,18 +3,33 @@ import { ApiToken } from "../schema/types";
 
 export type AuthRule = ApiToken["access"]["rules"][0];
 
+export type AuthRuleMatch = {
+  rule: AuthRule;
+  // first segment of the matched resource, e.g. `stream` for `/stream/:id`
+  resourceType: string;
+  params: Record<string, string>;
+};
+
+const ID_PARAM_REGEX = /(^|\/):id(\/|$)/;
+
 export class AuthPolicy {
   private allowRouter: any; //: HttpHash
 
   constructor(public rules: AuthRule[]) {
     const allowRouter = new HttpHash();
     for (const rule of rules) {
+      const isScoped = rule.ids || rule.creatorIds;
       for (const resource of rule.resources) {
         if (resource.includes("?")) {
           throw new Error(`Bad route ${resource}: cannot have query string`);
         }
+        if (isScoped && !ID_PARAM_REGEX.test(resource)) {
+          throw new Error(
+            `Bad route ${resource}: must have an :id param to be scoped by ids or creatorIds`
+          );
+        }
         try {
-          allowRouter.set(resource, rule.methods ?? ["*"]);
+          allowRouter.set(resource, { rule, resource });
         } catch (err) {
           throw new Error(`Bad route ${resource}: ${err}`);
         }
@@ -23,10 +38,27 @@ export class AuthPolicy {
     this.allowRouter = allowRouter;
   }
 
+  /**
+   * Returns the rule that allows the request, if any. Rules scoped by `ids`
+   * are checked here, but the ones scoped by `creatorIds` must still be
+   * checked against the object of the request.
+   */
+  match(method: string, path: string): AuthRuleMatch {
+    const { handler, params } = this.allowRouter.get(path);
+    if (!handler) return null;
+    const { rule, resource } = handler as { rule: AuthRule; resource: string };
+    const methods: string[] = rule.methods ?? ["*"];
+    if (!methods.includes(method.toLowerCase()) && !methods.includes("*")) {
+      return null;
+    }
+    if (rule.ids && !rule.ids.includes(params.id)) {
+      return null;
+    }
+    const resourceType = resource.replace(/^\//, "").split("/")[0];
+    return { rule, resourceType, params };
+  }
+
   allows(method: string, path: string) {
-    const match = this.allowRouter.get(path);
-    const methods = match.handler;
-    if (!methods) return false;
-    return methods.includes(method.toLowerCase()) || methods.includes("*");
+    return !!this.match(method, path);
   }
 }
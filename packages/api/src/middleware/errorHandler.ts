@@ -7,7 +7,10 @@ export default function errorHandler(): ErrorRequestHandler {
     // If we throw any errors with numerical statuses, use them.
     if (isAPIError(err)) {
       res.status(err.status);
-      return res.json({ errors: [err.message] });
+      return res.json({
+        errors: [err.message],
+        ...(err.code && { code: err.code }),
+      });
     }
     res.status(500);
     console.error(err);
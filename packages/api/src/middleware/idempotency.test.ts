@@ -0,0 +1,166 @@
+import { User } from "../schema/types";
+import { db } from "../store";
+import { IDEMPOTENCY_KEY_TTL } from "../store/idempotency-key-table";
+import {
+  AuxTestServer,
+  clearDatabase,
+  setupUsers,
+  startAuxTestServer,
+  TestClient,
+} from "../test-helpers";
+import serverPromise, { TestServer } from "../test-server";
+import errorHandler from "./errorHandler";
+import idempotent from "./idempotency";
+
+let server: TestServer;
+let mockAdminUserInput: User;
+let mockNonAdminUserInput: User;
+
+let testServer: AuxTestServer;
+let handlerCalls = 0;
+
+beforeAll(async () => {
+  server = await serverPromise;
+
+  mockAdminUserInput = {
+    email: "user_admin@gmail.com",
+    password: "x".repeat(64),
+  };
+
+  mockNonAdminUserInput = {
+    email: "user_non_admin@gmail.com",
+    password: "y".repeat(64),
+  };
+
+  const { app } = (testServer = await startAuxTestServer());
+  app.use((req, _res, next) => {
+    req.user = { id: "test-user" } as any;
+    next();
+  });
+  app.post("/end", idempotent(), (_req, res) => {
+    handlerCalls++;
+    res.status(204).end();
+  });
+  app.post("/send", idempotent(), (_req, res) => {
+    handlerCalls++;
+    res.status(200).type("text").send(`call ${handlerCalls}`);
+  });
+  app.use(errorHandler());
+});
+
+afterAll(() => testServer.close());
+
+afterEach(async () => {
+  await clearDatabase(server);
+});
+
+describe("idempotency middleware", () => {
+  let client: TestClient;
+
+  const postStream = (body: any, key?: string) =>
+    client.fetch("/stream", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(key && { "idempotency-key": key }),
+      },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    let nonAdminApiKey: string;
+    ({ client, nonAdminApiKey } = await setupUsers(
+      server,
+      mockAdminUserInput,
+      mockNonAdminUserInput
+    ));
+    client.jwtAuth = null;
+    client.apiKey = nonAdminApiKey;
+  });
+
+  it("should replay the response of retries with the same key", async () => {
+    let res = await postStream({ name: "test" }, "key-1");
+    expect(res.status).toBe(201);
+    expect(res.headers.get("idempotent-replayed")).toBeNull();
+    const stream = await res.json();
+
+    res = await postStream({ name: "test" }, "key-1");
+    expect(res.status).toBe(201);
+    expect(res.headers.get("idempotent-replayed")).toBe("true");
+    await expect(res.json()).resolves.toEqual(stream);
+
+    res = await postStream({ name: "test" }, "key-2");
+    expect(res.status).toBe(201);
+    expect((await res.json()).id).not.toEqual(stream.id);
+
+    res = await postStream({ name: "test" });
+    expect(res.status).toBe(201);
+
+    const [streams] = await db.stream.find({ userId: stream.userId });
+    expect(streams).toHaveLength(3);
+  });
+
+  it("should not allow reusing a key with a different request", async () => {
+    let res = await postStream({ name: "test" }, "key-1");
+    expect(res.status).toBe(201);
+
+    res = await postStream({ name: "other" }, "key-1");
+    expect(res.status).toBe(409);
+  });
+
+  it("should scope keys to each endpoint", async () => {
+    let res = await postStream({ name: "test" }, "key-1");
+    expect(res.status).toBe(201);
+
+    res = await client.fetch("/multistream/target", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "idempotency-key": "key-1",
+      },
+      body: JSON.stringify({ name: "target", url: "rtmp://test/live/key" }),
+    });
+    expect(res.status).toBe(201);
+    expect(res.headers.get("idempotent-replayed")).toBeNull();
+  });
+
+  it("should replay responses not sent as JSON", async () => {
+    const auxClient = new TestClient({ server: testServer });
+    const post = (path: string) =>
+      auxClient.fetch(path, {
+        method: "POST",
+        headers: { "idempotency-key": "key-1" },
+      });
+    handlerCalls = 0;
+
+    let res = await post("/end");
+    expect(res.status).toBe(204);
+    res = await post("/end");
+    expect(res.status).toBe(204);
+    expect(res.headers.get("idempotent-replayed")).toBe("true");
+
+    res = await post("/send");
+    await expect(res.text()).resolves.toEqual("call 2");
+    res = await post("/send");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("idempotent-replayed")).toBe("true");
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    await expect(res.text()).resolves.toEqual("call 2");
+
+    expect(handlerCalls).toBe(2);
+  });
+
+  it("should delete expired keys of all users", async () => {
+    let res = await postStream({ name: "test" }, "key-1");
+    expect(res.status).toBe(201);
+
+    await db.idempotencyKey.deleteExpired(Date.now());
+    res = await postStream({ name: "test" }, "key-1");
+    expect(res.headers.get("idempotent-replayed")).toBe("true");
+
+    await db.idempotencyKey.deleteExpired(Date.now() + IDEMPOTENCY_KEY_TTL + 1);
+    res = await postStream({ name: "test" }, "key-1");
+    expect(res.status).toBe(201);
+    expect(res.headers.get("idempotent-replayed")).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { createHash } from "crypto";
+import { RequestHandler } from "express";
+
+import { pathJoin2 } from "../controllers/helpers";
+import { db } from "../store";
+import { BadRequestError, ConflictError } from "../store/errors";
+import { isIdempotencyKeyExpired } from "../store/idempotency-key-table";
+
+const MAX_KEY_LENGTH = 255;
+
+const sha256 = (data: string) =>
+  createHash("sha256").update(data).digest("hex");
+
+/**
+ * Creates a middleware that makes the endpoint idempotent for requests with
+ * an `Idempotency-Key` header. The response of the first request is stored
+ * and replayed to any retry with the same key and body, while retries with a
+ * different body or that arrive while the first request is still in progress
+ * are rejected. Server errors and streamed responses are not stored, so that
+ * those requests can be retried.
+ *
+ * @remarks
+ * Must be used after the {@link authorizer} middleware, as keys are scoped to
+ * the user of the request.
+ */
+export default function idempotent(): RequestHandler {
+  return async (req, res, next) => {
+    const key = req.header("idempotency-key");
+    if (!key || !req.user) {
+      return next();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestError(
+        `Idempotency-Key must have at most ${MAX_KEY_LENGTH} characters`
+      );
+    }
+
+    const { method } = req;
+    const userId = req.user.id;
+    const path = pathJoin2(req.baseUrl, req.path);
+    const id = sha256(JSON.stringify([userId, method, path, key]));
+    const requestHash = sha256(JSON.stringify(req.body ?? {}));
+    const now = Date.now();
+
+    let stored = await db.idempotencyKey.get(id, { useReplica: false });
+    if (stored && isIdempotencyKeyExpired(stored, now)) {
+      // expired keys are cleaned up periodically, so reuse it until then
+      await db.idempotencyKey.delete(id);
+      stored = null;
+    }
+    if (stored) {
+      if (stored.requestHash !== requestHash) {
+        throw new ConflictError(
+          `Idempotency-Key ${key} was already used with a different request`
+        );
+      }
+      if (!stored.response) {
+        throw new ConflictError(
+          `a request with Idempotency-Key ${key} is still in progress`
+        );
+      }
+      const { status, contentType, body } = stored.response;
+      res.set("Idempotent-Replayed", "true");
+      if (contentType) {
+        res.set("Content-Type", contentType);
+      }
+      res.status(status);
+      return body === undefined ? res.end() : res.send(body);
+    }
+
+    try {
+      await db.idempotencyKey.create({
+        id,
+        userId,
+        key,
+        method,
+        path,
+        requestHash,
+        createdAt: now,
+      });
+    } catch (err) {
+      if (err instanceof BadRequestError) {
+        // a concurrent request with the same key got to create it first
+        throw new ConflictError(
+          `a request with Idempotency-Key ${key} is still in progress`
+        );
+      }
+      throw err;
+    }
+
+    // the response is only sent once stored, so that retries after it get
+    // the stored response instead of a conflict. Every way of responding ends
+    // up calling end(), with the whole body unless it was streamed.
+    const end = res.end.bind(res);
+    res.end = (chunk?: any, ...args: any[]) => {
+      const status = res.statusCode;
+      const streamed = res.headersSent;
+      const store =
+        status >= 500 || streamed
+          ? db.idempotencyKey.delete(id)
+          : db.idempotencyKey.update(id, {
+              response: {
+                status,
+                contentType: res.get("content-type"),
+                body:
+                  typeof chunk === "function" || chunk == null
+                    ? undefined
+                    : chunk.toString(),
+              },
+            });
+      store
+        .catch((err) => {
+          console.error(
+            `idempotency: error storing response for key=${key} userId=${userId} path=${path} err=`,
+            err
+          );
+        })
+        .then(() => end(chunk, ...args));
+      return res;
+    };
+    return next();
+  };
+}
@@ -1,6 +1,8 @@
 export * from "./auth";
 export * from "./validators";
 export { default as errorHandler } from "./errorHandler";
+export { default as rateLimiter } from "./rate-limit";
+export { default as idempotent } from "./idempotency";
 export { default as healthCheck } from "./health-check";
 export { default as subgraph } from "./subgraph";
 export { default as checkKubernetes } from "./check-kubernetes";
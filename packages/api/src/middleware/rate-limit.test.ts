@@ -0,0 +1,112 @@
+import { User } from "../schema/types";
+import { AuxTestServer, startAuxTestServer, TestClient } from "../test-helpers";
+import errorHandler from "./errorHandler";
+import rateLimiter from "./rate-limit";
+
+const users: Record<string, Partial<User>> = {
+  free: { id: "free", stripeProductId: "hacker_1" },
+  paid: { id: "paid", stripeProductId: "growth_1" },
+  override: { id: "override", stripeProductId: "hacker_1", rateLimit: 5 },
+  unlimited: { id: "unlimited", stripeProductId: "hacker_1", rateLimit: 0 },
+  admin: { id: "admin", admin: true },
+};
+
+let testServer: AuxTestServer;
+let client: TestClient;
+
+beforeAll(async () => {
+  const { app } = (testServer = await startAuxTestServer());
+  app.use((req, res, next) => {
+    req.config = {
+      httpPrefix: "/api",
+      rateLimits: { default: 3, hacker_1: 2 },
+    } as any;
+    req.user = users[req.header("x-user")] as User;
+    const token = req.header("x-token");
+    req.token = token ? ({ id: token } as any) : undefined;
+    next();
+  });
+  app.use("/capped", rateLimiter(2), (_req, res) => res.status(204).end());
+  app.use(rateLimiter());
+  app.all("/*", (_req, res) => res.status(204).end());
+  app.use(errorHandler());
+
+  client = new TestClient({ server: testServer });
+});
+
+afterAll(() => testServer.close());
+
+describe("rate limit middleware", () => {
+  const fetchStatuses = async (
+    times: number,
+    path: string,
+    headers: Record<string, string>
+  ) => {
+    const statuses: number[] = [];
+    for (let i = 0; i < times; i++) {
+      const res = await client.fetch(path, { headers });
+      statuses.push(res.status);
+    }
+    return statuses;
+  };
+
+  it("should limit requests by the plan of the user", async () => {
+    const headers = { "x-user": "free" };
+    let res = await client.fetch("/api/stream", { headers });
+    expect(res.status).toBe(204);
+    expect(res.headers.get("ratelimit-limit")).toBe("2");
+    expect(res.headers.get("ratelimit-remaining")).toBe("1");
+    expect(Number(res.headers.get("ratelimit-reset"))).toBeLessThanOrEqual(60);
+
+    await client.fetch("/api/stream", { headers });
+    res = await client.fetch("/api/stream/123", { headers });
+    expect(res.status).toBe(429);
+    expect(res.headers.get("ratelimit-remaining")).toBe("0");
+    expect(Number(res.headers.get("retry-after"))).toBeGreaterThan(0);
+
+    // other route groups have their own counters
+    expect(await fetchStatuses(2, "/api/asset", headers)).toEqual([204, 204]);
+
+    expect(await fetchStatuses(4, "/api/stream", { "x-user": "paid" })).toEqual(
+      [204, 204, 204, 429]
+    );
+  });
+
+  it("should limit API keys independently from their user", async () => {
+    const user = { "x-user": "paid" };
+    expect(
+      await fetchStatuses(4, "/api/session", { ...user, "x-token": "key1" })
+    ).toEqual([204, 204, 204, 429]);
+    expect(
+      await fetchStatuses(1, "/api/session", { ...user, "x-token": "key2" })
+    ).toEqual([204]);
+  });
+
+  it("should apply the overrides set by admins", async () => {
+    expect(
+      await fetchStatuses(6, "/api/task", { "x-user": "override" })
+    ).toEqual([204, 204, 204, 204, 204, 429]);
+
+    for (const user of ["unlimited", "admin"]) {
+      const res = await client.fetch("/api/task", {
+        headers: { "x-user": user },
+      });
+      expect(res.status).toBe(204);
+      expect(res.headers.get("ratelimit-limit")).toBeNull();
+    }
+    expect(await fetchStatuses(3, "/api/task", {})).toEqual([204, 204, 204]);
+  });
+
+  it("should keep the counters of a bounded number of keys", async () => {
+    const statuses = (token: string, times: number) =>
+      fetchStatuses(times, "/capped/api/stream", {
+        "x-user": "free",
+        "x-token": token,
+      });
+    expect(await statuses("key1", 3)).toEqual([204, 204, 429]);
+    expect(await statuses("key2", 1)).toEqual([204]);
+    expect(await statuses("key3", 1)).toEqual([204]);
+    // the least recently used key got evicted
+    expect(await statuses("key1", 1)).toEqual([204]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Limits the rate of requests of each API key, or user when authenticated
+ * through a JWT, to each group of routes. Counters are kept in memory, so the
+ * limits apply to each API instance independently and the effective limit is
+ * multiplied by the number of instances behind the load balancer.
+ */
+
+import { Request, RequestHandler } from "express";
+import { trimPathPrefix } from "../controllers/helpers";
+import { TooManyRequestsError } from "../store/errors";
+import { LruCache } from "../util";
+
+export const RATE_LIMIT_WINDOW = 60 * 1000;
+const MAX_RATE_LIMIT_KEYS = 100000;
+
+type RateLimitWindow = {
+  count: number;
+  resetAt: number;
+};
+
+/**
+ * Returns the maximum number of requests per window allowed for the user of
+ * the request, or 0 if it is not limited. Admins can override the default of
+ * the plan of each user.
+ */
+function requestRateLimit(req: Request): number {
+  const { user, config } = req;
+  if (!user || user.admin) {
+    return 0;
+  }
+  if (typeof user.rateLimit === "number") {
+    return user.rateLimit;
+  }
+  const limits = config.rateLimits ?? {};
+  return limits[user.stripeProductId] ?? limits.default ?? 0;
+}
+
+// Requests are grouped by the first segment of their path, e.g. `stream` for
+// `/api/stream/:id`, so that polling some endpoints does not block others.
+function routeGroup(req: Request) {
+  const { httpPrefix } = req.config;
+  const path = httpPrefix ? trimPathPrefix(httpPrefix, req.path) : req.path;
+  return path.split("/").find((segment) => !!segment) ?? "";
+}
+
+export default function rateLimiter(
+  maxKeys = MAX_RATE_LIMIT_KEYS
+): RequestHandler {
+  // the least recently used keys are evicted beyond the maximum, so memory
+  // stays bounded even when flooded with requests of many different keys
+  const windows = new LruCache<RateLimitWindow>(maxKeys);
+
+  return (req, res, next) => {
+    const limit = requestRateLimit(req);
+    if (!limit) {
+      return next();
+    }
+
+    const now = Date.now();
+    const subject = req.token ? `token:${req.token.id}` : `user:${req.user.id}`;
+    const key = `${subject}:${routeGroup(req)}`;
+    let window = windows.get(key);
+    if (!window) {
+      window = { count: 0, resetAt: now + RATE_LIMIT_WINDOW };
+      windows.set(key, window, RATE_LIMIT_WINDOW);
+    }
+    window.count++;
+
+    const resetSecs = Math.ceil((window.resetAt - now) / 1000);
+    res.set({
+      "RateLimit-Limit": limit.toString(),
+      "RateLimit-Remaining": Math.max(limit - window.count, 0).toString(),
+      "RateLimit-Reset": resetSecs.toString(),
+    });
+    if (window.count > limit) {
+      res.set("Retry-After", resetSecs.toString());
+      throw new TooManyRequestsError(
+        `rate limit of ${limit} requests per minute exceeded, retry in ${resetSecs} seconds`
+      );
+    }
+    return next();
+  };
+}
@@ -262,6 +262,28 @@ export default function parseCli(argv?: string | readonly string[]) {
         default: "[]",
         coerce: coerceJsonValue<Ingest[]>("ingest"),
       },
+      "playback-viewer-limits": {
+        describe:
+          "JSON object with the maximum viewers of each content in a 3 minute window, by the stripe product ID of the plan of the content owner. Plans not in the object have no limit",
+        type: "string",
+        default: JSON.stringify({ hacker_1: 5, prod_O9XuIjn7EqYRVW: 5 }),
+        coerce: coerceJsonValue<Record<string, number>>(
+          "playback-viewer-limits"
+        ),
+      },
+      "gate-skip-missing-viewer-info": {
+        describe:
+          "skip the playback policy checks of the access control gate that need viewer information not forwarded by the caller, like the viewer location, origin or viewer and session IDs, logging a warning instead of denying playback. Meant for rolling out Catalyst versions that forward it",
+        default: false,
+        type: "boolean",
+      },
+      "rate-limits": {
+        describe:
+          "JSON object with the maximum requests per minute of each API key or user to each group of routes, by the stripe product ID of the plan of the user. The `default` key applies to the other plans. Admins are not limited. Counters are kept by each API instance, so the limits apply per instance",
+        type: "string",
+        default: JSON.stringify({ default: 600, hacker_1: 300 }),
+        coerce: coerceJsonValue<Record<string, number>>("rate-limits"),
+      },
       prices: {
         describe:
           "hardcoded list of prices for broadcasters to return from /api/orchestrator/hook/auth",
@@ -461,6 +483,11 @@ export default function parseCli(argv?: string | readonly string[]) {
         type: "string",
         default: "https://meet.livekit.io/custom",
       },
+      "signing-key-encryption-secret": {
+        describe:
+          "secret used to encrypt the private keys of managed signing keys. managed signing keys can't be created if not set",
+        type: "string",
+      },
       saltForRequesterId: {
         describe: "Salt for generating requesterId",
         type: "string",
@@ -1,5 +1,6 @@
 import sql, { SQLStatement } from "sql-template-strings";
 import { Asset, Task, User } from "../schema/types";
+import { QueryResult } from "pg";
 import Table from "./table";
 import { QueryOptions, WithID } from "./types";
 
@@ -105,6 +106,24 @@ export default class AssetTable extends Table<WithID<Asset>> {
         ]);
   }
 
+  // Returns the total duration in seconds of the ready assets of the project
+  // that were stored at the given time.
+  async projectStoredDuration(
+    projectId: string,
+    time: number,
+    opts?: QueryOptions
+  ): Promise<number> {
+    const res: QueryResult<{ duration: number }> = await this.db.queryWithOpts(
+      sql`SELECT sum((data->'videoSpec'->>'duration')::float) as duration
+        FROM asset WHERE data->>'projectId' = ${projectId}
+        AND data->'status'->>'phase' = 'ready'
+        AND (data->>'createdAt')::bigint < ${time}
+        AND (data->>'deleted' IS NULL OR (data->>'deletedAt')::bigint >= ${time})`,
+      opts
+    );
+    return res.rows[0]?.duration ?? 0;
+  }
+
   async getBySessionId(sessionId: string): Promise<WithID<Asset>> {
     const query = [
       sql`asset.data->'source'->>'type' = 'recording'`,
@@ -17,6 +17,11 @@ import {
   SigningKey,
   Room,
   Attestation,
+  AccessControlDecision,
+  Project,
+  Organization,
+  OrganizationMember,
+  OrganizationInvite,
 } from "../schema/types";
 import BaseTable, { TableOptions } from "./table";
 import StreamTable from "./stream-table";
@@ -24,11 +29,15 @@ import { kebabToCamel } from "../util";
 import { QueryOptions, WithID } from "./types";
 import MultistreamTargetTable from "./multistream-table";
 import WebhookTable from "./webhook-table";
+import WebhookTriggerTable from "./webhook-trigger-table";
+import WebhookEventTable from "./webhook-event-table";
 import AssetTable from "./asset-table";
 import TaskTable from "./task-table";
 import ExperimentTable from "./experiment-table";
 import AttestationTable from "./attestation-table";
 import SessionTable, { DBSession } from "./session-table";
+import PlaybackHitTable from "./playback-hit-table";
+import IdempotencyKeyTable from "./idempotency-key-table";
 
 // Should be configurable, perhaps?
 export const CONNECT_TIMEOUT =
@@ -72,10 +81,19 @@ export class DB {
   usage: Table<Usage>;
   webhook: WebhookTable;
   webhookResponse: Table<WebhookResponse>;
+  webhookTrigger: WebhookTriggerTable;
+  webhookEvent: WebhookEventTable;
   passwordResetToken: Table<PasswordResetToken>;
   region: Table<Region>;
   session: SessionTable;
   room: Table<Room>;
+  playbackHit: PlaybackHitTable;
+  accessControlDecision: Table<AccessControlDecision>;
+  idempotencyKey: IdempotencyKeyTable;
+  project: Table<Project>;
+  organization: Table<Organization>;
+  organizationMember: Table<OrganizationMember>;
+  organizationInvite: Table<OrganizationInvite>;
 
   postgresUrl: string;
   replicaUrl: string;
@@ -180,8 +198,44 @@ export class DB {
       db: this,
       schema: schemas["webhook-response"],
     });
+    this.webhookTrigger = new WebhookTriggerTable({
+      db: this,
+      schema: schemas["webhook-trigger"],
+    });
+    this.webhookEvent = new WebhookEventTable({
+      db: this,
+      schema: schemas["webhook-event"],
+    });
     this.session = new SessionTable({ db: this, schema: schemas["session"] });
     this.room = makeTable<Room>({ db: this, schema: schemas["room"] });
+    this.accessControlDecision = makeTable<AccessControlDecision>({
+      db: this,
+      schema: schemas["access-control-decision"],
+    });
+    this.playbackHit = new PlaybackHitTable({
+      db: this,
+      schema: schemas["playback-hit"],
+    });
+    this.idempotencyKey = new IdempotencyKeyTable({
+      db: this,
+      schema: schemas["idempotency-key"],
+    });
+    this.project = makeTable<Project>({
+      db: this,
+      schema: schemas["project"],
+    });
+    this.organization = makeTable<Organization>({
+      db: this,
+      schema: schemas["organization"],
+    });
+    this.organizationMember = makeTable<OrganizationMember>({
+      db: this,
+      schema: schemas["organization-member"],
+    });
+    this.organizationInvite = makeTable<OrganizationInvite>({
+      db: this,
+      schema: schemas["organization-invite"],
+    });
 
     const tables = Object.entries(schema.components.schemas).filter(
       ([name, schema]) => "table" in schema && schema.table
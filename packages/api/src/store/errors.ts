@@ -1,6 +1,9 @@
 class APIError extends Error {
   type: string;
   status: number;
+  // machine-readable code returned along with the message, for the errors
+  // that clients are expected to handle specifically
+  code?: string;
 }
 
 export function isAPIError(err: any): err is APIError {
@@ -35,6 +38,16 @@ export class UnauthorizedError extends APIError {
   }
 }
 
+// Distinct from other auth errors so that clients can tell that they need to
+// create a new API key instead of fixing their credentials.
+export class ExpiredTokenError extends UnauthorizedError {
+  constructor(message) {
+    super(message);
+    this.type = "ExpiredTokenError";
+    this.code = "token_expired";
+  }
+}
+
 export class ForbiddenError extends APIError {
   constructor(message) {
     super(message);
@@ -43,6 +56,14 @@ export class ForbiddenError extends APIError {
   }
 }
 
+export class ConflictError extends APIError {
+  constructor(message) {
+    super(message);
+    this.type = "ConflictError";
+    this.status = 409;
+  }
+}
+
 export class UnprocessableEntityError extends APIError {
   constructor(message) {
     super(message);
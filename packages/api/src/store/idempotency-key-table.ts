@@ -0,0 +1,50 @@
+import sql from "sql-template-strings";
+
+import { IdempotencyKey } from "../schema/types";
+import Table from "./table";
+import { WithID } from "./types";
+
+// Responses are replayed to retries with the same key for this long.
+export const IDEMPOTENCY_KEY_TTL = 24 * 60 * 60 * 1000;
+// Requests that got no response after this long, e.g. because the instance
+// handling them died, are considered abandoned and can be retried.
+export const ABANDONED_REQUEST_TIMEOUT = 5 * 60 * 1000;
+
+// Whether the key can no longer be replayed, so it can be reused.
+export function isIdempotencyKeyExpired(
+  idempotencyKey: IdempotencyKey,
+  now = Date.now()
+) {
+  const { createdAt, response } = idempotencyKey;
+  return (
+    createdAt < now - IDEMPOTENCY_KEY_TTL ||
+    (!response && createdAt < now - ABANDONED_REQUEST_TIMEOUT)
+  );
+}
+
+export default class IdempotencyKeyTable extends Table<WithID<IdempotencyKey>> {
+  // Deletes the keys of all users that expired before the given time, as
+  // well as the ones whose request was abandoned without a response. Done in
+  // batches to avoid holding locks on many rows at once.
+  async deleteExpired(now = Date.now(), batchSize = 1000) {
+    const before = now - IDEMPOTENCY_KEY_TTL;
+    const abandonedBefore = now - ABANDONED_REQUEST_TIMEOUT;
+    let deleted = 0;
+    while (true) {
+      const q = sql`DELETE FROM `.append(this.name).append(sql`
+        WHERE id IN (SELECT id FROM `);
+      q.append(this.name).append(sql`
+          WHERE (data->>'createdAt')::bigint < ${before} OR (
+            data->'response' IS NULL AND
+            (data->>'createdAt')::bigint < ${abandonedBefore}
+          )
+          LIMIT ${batchSize}
+        )`);
+      const res = await this.db.query(q);
+      deleted += res.rowCount;
+      if (res.rowCount < batchSize) {
+        return deleted;
+      }
+    }
+  }
+}
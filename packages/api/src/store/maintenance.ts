@@ -0,0 +1,70 @@
+import logger from "../logger";
+import { DB } from "./db";
+
+// Interval between runs of the DB cleanup jobs. Every API instance runs them,
+// which is fine since they are all idempotent deletes.
+const MAINTENANCE_INTERVAL = 5 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+// Delivery attempts of webhooks are kept this long for their delivery log.
+export const WEBHOOK_RESPONSE_RETENTION = 30 * DAY;
+// Events are kept this long for the event log and to be replayed to webhooks.
+export const WEBHOOK_EVENT_RETENTION = 30 * DAY;
+// Access control gate decisions are kept this long for their content owners.
+export const ACCESS_CONTROL_DECISION_RETENTION = 7 * DAY;
+
+type MaintenanceJob = {
+  name: string;
+  run: (db: DB) => Promise<unknown>;
+};
+
+const jobs: MaintenanceJob[] = [
+  { name: "prune-webhook-triggers", run: (db) => db.webhookTrigger.prune() },
+  {
+    name: "delete-old-webhook-responses",
+    run: (db) =>
+      db.webhookResponse.deleteCreatedBefore(
+        Date.now() - WEBHOOK_RESPONSE_RETENTION
+      ),
+  },
+  {
+    name: "delete-old-webhook-events",
+    run: (db) =>
+      db.webhookEvent.deleteCreatedBefore(Date.now() - WEBHOOK_EVENT_RETENTION),
+  },
+  {
+    name: "delete-old-access-control-decisions",
+    run: (db) =>
+      db.accessControlDecision.deleteCreatedBefore(
+        Date.now() - ACCESS_CONTROL_DECISION_RETENTION
+      ),
+  },
+  {
+    name: "delete-expired-playback-hits",
+    run: (db) => db.playbackHit.deleteExpired(),
+  },
+  {
+    name: "delete-expired-idempotency-keys",
+    run: (db) => db.idempotencyKey.deleteExpired(),
+  },
+];
+
+/**
+ * Starts running the periodic cleanup jobs of the DB tables that would
+ * otherwise grow forever, keeping that work off the request hot path.
+ *
+ * @returns a function that stops the jobs.
+ */
+export function startMaintenance(db: DB, interval = MAINTENANCE_INTERVAL) {
+  const runJobs = async () => {
+    for (const { name, run } of jobs) {
+      try {
+        await run(db);
+      } catch (err) {
+        logger.error(`maintenance: error running job=${name} err=`, err);
+      }
+    }
+  };
+  const timer = setInterval(runJobs, interval);
+  timer.unref();
+  return () => clearInterval(timer);
+}
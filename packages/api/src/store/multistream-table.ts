@@ -13,6 +13,7 @@ export interface MultistreamTargetInput {
   url: string;
   disabled?: boolean;
   userId: string;
+  projectId?: string;
 }
 
 const parseUrl = (url: string) => {
@@ -32,6 +33,7 @@ export default class MultistreamTargetTable extends Table<DBMultistreamTarget> {
       url: input.url,
       disabled: input.disabled ?? false,
       userId: input.userId,
+      projectId: input.projectId,
       createdAt: Date.now(),
     };
     await super.create(target);
@@ -0,0 +1,136 @@
+import sql from "sql-template-strings";
+import { v4 as uuid } from "uuid";
+
+import { PlaybackHit } from "../schema/types";
+import Table from "./table";
+
+// Playback hits are counted towards viewer limits for this long, so playback
+// sessions are considered active for this long after their last gate check.
+export const PLAYBACK_HITS_WINDOW = 3 * 60 * 1000;
+
+export type DBPlaybackHit = PlaybackHit & { id: string };
+
+// Sliding window counters of playback hits, shared by all the API instances.
+export default class PlaybackHitTable extends Table<DBPlaybackHit> {
+  // Registers a new hit for the key, replacing any previous hit of the same
+  // session.
+  async record(key: string, sessionId?: string, timestamp = Date.now()) {
+    if (sessionId) {
+      await this.db.query(
+        sql`DELETE FROM `
+          .append(this.name)
+          .append(
+            sql` WHERE data->>'key' = ${key} AND data->>'sessionId' = ${sessionId}`
+          )
+      );
+    }
+    return this.create({
+      id: uuid(),
+      key,
+      sessionId,
+      timestamp,
+    });
+  }
+
+  // Registers a hit for the session unless there are already the maximum
+  // amount of other hits of the key since the given timestamp, returning
+  // whether it was registered. Concurrent calls for the same key are
+  // serialized with a lock so that they can't go past the limit together.
+  async recordWithinLimit(
+    key: string,
+    maxHits: number,
+    since: number,
+    sessionId?: string
+  ): Promise<boolean> {
+    const client = await this.db.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(sql`SELECT pg_advisory_xact_lock(hashtext(${key}))`);
+      const keyQuery = sql` WHERE data->>'key' = ${key}`;
+      await client.query(
+        sql`DELETE FROM `
+          .append(this.name)
+          .append(keyQuery)
+          .append(sql` AND (data->>'timestamp')::bigint < ${since}`)
+      );
+      // hits without a session ID can't be told apart, so each one counts
+      const othersQuery = sql`SELECT count(*) FROM `
+        .append(this.name)
+        .append(keyQuery);
+      if (sessionId) {
+        othersQuery.append(
+          sql` AND data->>'sessionId' IS DISTINCT FROM ${sessionId}`
+        );
+      }
+      const res = await client.query(othersQuery);
+      if (parseInt(res.rows[0].count) >= maxHits) {
+        await client.query("COMMIT");
+        return false;
+      }
+
+      if (sessionId) {
+        await client.query(
+          sql`DELETE FROM `
+            .append(this.name)
+            .append(keyQuery)
+            .append(sql` AND data->>'sessionId' = ${sessionId}`)
+        );
+      }
+      const hit: DBPlaybackHit = {
+        id: uuid(),
+        key,
+        sessionId,
+        timestamp: Date.now(),
+      };
+      await client.query(`INSERT INTO ${this.name} VALUES ($1, $2)`, [
+        hit.id,
+        JSON.stringify(hit),
+      ]);
+      await client.query("COMMIT");
+      return true;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Returns the hits of the key since the given timestamp, deleting the older
+  // ones which are not counted anymore.
+  async listActive(key: string, since: number): Promise<DBPlaybackHit[]> {
+    await this.db.query(
+      sql`DELETE FROM `
+        .append(this.name)
+        .append(
+          sql` WHERE data->>'key' = ${key} AND (data->>'timestamp')::bigint < ${since}`
+        )
+    );
+    const [hits] = await this.find([sql`data->>'key' = ${key}`], {
+      limit: 1000,
+      useReplica: false,
+    });
+    return hits;
+  }
+
+  // Deletes the hits of every key that are out of the counting window, which
+  // would otherwise be kept forever for keys that are never checked again.
+  async deleteExpired(
+    before = Date.now() - PLAYBACK_HITS_WINDOW,
+    batchSize = 1000
+  ) {
+    let deleted = 0;
+    while (true) {
+      const q = sql`DELETE FROM `.append(this.name).append(sql`
+        WHERE id IN (SELECT id FROM `);
+      q.append(this.name).append(sql`
+          WHERE (data->>'timestamp')::bigint < ${before} LIMIT ${batchSize}
+        )`);
+      const res = await this.db.query(q);
+      deleted += res.rowCount;
+      if (res.rowCount < batchSize) {
+        return deleted;
+      }
+    }
+  }
+}
@@ -17,4 +17,22 @@ export default class SessionTable extends Table<DBSession> {
     );
     return res.rowCount < 1 ? null : (res.rows[0].data as DBSession);
   }
+
+  // Returns the total duration in seconds of the source segments of the
+  // sessions of the project's streams created in the given time range.
+  async projectSourceDuration(
+    projectId: string,
+    fromTime: number,
+    toTime: number,
+    opts?: QueryOptions
+  ): Promise<number> {
+    const res: QueryResult<{ duration: number }> = await this.db.queryWithOpts(
+      sql`SELECT sum((data->>'sourceSegmentsDuration')::float) as duration
+        FROM session WHERE data->>'projectId' = ${projectId}
+        AND (data->>'createdAt')::bigint >= ${fromTime}
+        AND (data->>'createdAt')::bigint < ${toTime}`,
+      opts
+    );
+    return res.rows[0]?.duration ?? 0;
+  }
 }
@@ -263,6 +263,25 @@ export default class Table<T extends DBObject> {
     }
   }
 
+  // Deletes the documents created before the given time, in batches to avoid
+  // holding locks on many rows at once. Meant for periodic retention jobs.
+  async deleteCreatedBefore(time: number, batchSize = 1000) {
+    let deleted = 0;
+    while (true) {
+      const q = sql`DELETE FROM `.append(this.name).append(sql`
+        WHERE id IN (SELECT id FROM `);
+      q.append(this.name).append(sql`
+          WHERE (data->>'createdAt')::bigint < ${time}
+          LIMIT ${batchSize}
+        )`);
+      const res = await this.db.query(q);
+      deleted += res.rowCount;
+      if (res.rowCount < batchSize) {
+        return deleted;
+      }
+    }
+  }
+
   async markDeleted(id: string) {
     const res = await this.db.query(
       `UPDATE ${this.name} SET data = jsonb_set(data, '{deleted}', 'true'::jsonb) WHERE id = $1`,
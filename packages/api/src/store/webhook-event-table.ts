@@ -0,0 +1,47 @@
+import { WebhookEvent } from "../schema/types";
+import { EventSubject } from "../webhooks/filters";
+import messages from "./messages";
+import Table from "./table";
+
+export type DBWebhookEvent = Omit<WebhookEvent, "event"> & {
+  id: string;
+  event: messages.WebhookEvent["event"];
+};
+
+export default class WebhookEventTable extends Table<DBWebhookEvent> {
+  // Stores the event message along with the IDs of the resources it relates
+  // to, so the log can be queried and replayed by resource. The time it is
+  // recorded at is kept apart from its timestamp, as events may be delayed.
+  async record(msg: messages.WebhookEvent, subject: EventSubject) {
+    const { id, timestamp, event, userId, streamId, sessionId, payload } = msg;
+    const { assetId, creatorId, taskType, projectId } = subject;
+    return this.create({
+      id,
+      createdAt: timestamp,
+      recordedAt: Date.now(),
+      event,
+      userId,
+      streamId,
+      sessionId,
+      assetId,
+      creatorId,
+      taskType,
+      projectId,
+      payload,
+    });
+  }
+
+  toMessage(doc: DBWebhookEvent): messages.WebhookEvent {
+    const { id, createdAt, event, userId, streamId, sessionId, payload } = doc;
+    return {
+      type: "webhook_event",
+      id,
+      timestamp: createdAt,
+      event,
+      userId,
+      streamId,
+      sessionId,
+      payload,
+    };
+  }
+}
@@ -40,6 +40,7 @@ export default class WebhookTable extends Table<DBWebhook> {
     if (!includeDeleted) {
       query.push(sql`data->>'deleted' IS NULL`);
     }
+    query.push(sql`coalesce((data->>'disabled')::boolean, FALSE) = FALSE`);
 
     const [webhooks, nextCursor] = await this.find(query, {
       limit,
@@ -61,4 +62,61 @@ export default class WebhookTable extends Table<DBWebhook> {
       throw new NotFoundError(`couldn't find ${this.name} id=${id}`);
     }
   }
+
+  // Increments the count of consecutive failed deliveries of the webhook, or
+  // resets it on a successful one. Returns the updated webhook status.
+  async updateFailureStreak(
+    id: string,
+    failed: boolean,
+    timestamp: number
+  ): Promise<DBWebhook["status"]> {
+    const q = sql`UPDATE `.append(this.name);
+    if (failed) {
+      q.append(sql` SET data = jsonb_set(data, '{status}',
+        coalesce(data->'status', '{}') || jsonb_build_object(
+          'consecutiveFailures',
+          coalesce((data->'status'->>'consecutiveFailures')::int, 0) + 1,
+          'failingSince',
+          coalesce(data->'status'->'failingSince', to_jsonb(${timestamp}::bigint))
+        ))
+        WHERE id = ${id}`);
+    } else {
+      q.append(sql` SET data = jsonb_set(data, '{status}',
+        (data->'status' - 'failingSince') || '{"consecutiveFailures": 0}')
+        WHERE id = ${id}
+        AND (data->'status'->>'consecutiveFailures')::int > 0`);
+    }
+    q.append(` RETURNING data->'status' AS status`);
+
+    const res = await this.db.query<{ status: DBWebhook["status"] }>(q);
+    return res.rows[0]?.status;
+  }
+
+  // Returns whether the webhook got disabled by this call, so that callers
+  // can act only once on a webhook being disabled.
+  async disable(id: string, reason: string): Promise<boolean> {
+    const res = await this.update(
+      [sql`id = ${id}`, sql`data->>'disabled' IS DISTINCT FROM 'true'`],
+      { disabled: true, disabledReason: reason },
+      { throwIfEmpty: false }
+    );
+    return res.rowCount > 0;
+  }
+
+  async enable(id: string) {
+    const res = await this.db.query(
+      sql`UPDATE `.append(this.name).append(sql`
+        SET data = jsonb_set(
+          (data - 'disabledReason') || '{"disabled": false}',
+          '{status}',
+          (coalesce(data->'status', '{}') - 'failingSince') ||
+            '{"consecutiveFailures": 0}'
+        )
+        WHERE id = ${id}`)
+    );
+
+    if (res.rowCount < 1) {
+      throw new NotFoundError(`couldn't find ${this.name} id=${id}`);
+    }
+  }
 }
@@ -0,0 +1,53 @@
+import sql from "sql-template-strings";
+
+import { WebhookTrigger } from "../schema/types";
+import messages from "./messages";
+import { DBStream } from "./stream-table";
+import Table from "./table";
+
+// Amount of past triggers kept per webhook for manual redelivery.
+export const WEBHOOK_TRIGGER_HISTORY_SIZE = 100;
+
+export type DBWebhookTrigger = Omit<WebhookTrigger, "event" | "stream"> & {
+  id: string;
+  event: messages.WebhookEvent;
+  stream?: DBStream;
+};
+
+export default class WebhookTriggerTable extends Table<DBWebhookTrigger> {
+  // Stores the trigger without the user object, which is reloaded on resend.
+  async record(trigger: messages.WebhookTrigger) {
+    const { id, timestamp, webhook, event, stream } = trigger;
+    return this.create({
+      id,
+      webhookId: webhook.id,
+      userId: webhook.userId,
+      createdAt: timestamp,
+      event,
+      stream,
+    });
+  }
+
+  // Deletes the triggers of every webhook beyond its history size, in batches
+  // to keep each query short. Meant to run periodically instead of on every
+  // trigger, so the history may briefly grow above the size.
+  async prune(historySize = WEBHOOK_TRIGGER_HISTORY_SIZE, batchSize = 1000) {
+    let deleted = 0;
+    while (true) {
+      const q = sql`DELETE FROM `.append(this.name).append(sql`
+        WHERE id IN (
+          SELECT id FROM (
+            SELECT id, row_number() OVER (
+              PARTITION BY data->>'webhookId' ORDER BY data->'createdAt' DESC
+            ) AS rank FROM `);
+      q.append(this.name).append(sql`
+          ) ranked WHERE rank > ${historySize} LIMIT ${batchSize}
+        )`);
+      const res = await this.db.query(q);
+      deleted += res.rowCount;
+      if (res.rowCount < batchSize) {
+        return deleted;
+      }
+    }
+  }
+}
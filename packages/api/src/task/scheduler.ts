@@ -344,7 +344,8 @@ export class TaskScheduler {
     inputAsset?: Asset,
     outputAsset?: Asset,
     userId?: string,
-    requesterId?: string
+    requesterId?: string,
+    projectId?: string
   ) {
     const task = await this.createTask(
       type,
@@ -352,7 +353,8 @@ export class TaskScheduler {
       inputAsset,
       outputAsset,
       userId,
-      requesterId
+      requesterId,
+      projectId
     );
 
     let uId = inputAsset?.userId || outputAsset?.userId || userId;
@@ -375,7 +377,8 @@ export class TaskScheduler {
     inputAsset?: Asset,
     outputAsset?: Asset,
     userId?: string,
-    requesterId?: string
+    requesterId?: string,
+    projectId?: string
   ) {
     const task = await db.task.create({
       id: uuid(),
@@ -384,6 +387,8 @@ export class TaskScheduler {
       outputAssetId: outputAsset?.id,
       inputAssetId: inputAsset?.id,
       userId: inputAsset?.userId || outputAsset?.userId || userId,
+      // tasks belong to the project of the assets they process, if any
+      projectId: inputAsset?.projectId ?? outputAsset?.projectId ?? projectId,
       params,
       status: {
         phase: "pending",
@@ -580,7 +585,7 @@ export class TaskScheduler {
     }
     asset = { ...asset, ...updates };
 
-    const snapshot = toExternalAsset(asset, this.config, true);
+    const snapshot = await toExternalAsset(asset, this.config, true);
     const timestamp = asset.status.updatedAt;
     const event = updates.deleted ? "asset.deleted" : "asset.updated";
     await this.queue.publishWebhook(`events.${event}`, {
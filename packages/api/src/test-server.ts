@@ -23,7 +23,7 @@ const sendgridApiKey = "SG. iamanapikey";
 
 fs.ensureDirSync(dbPath);
 
-const params = argParser();
+export const params = argParser();
 // Secret code used for back-door DB access in test env
 
 // Some overrides... we want to run on a random port for parallel reasons
@@ -34,6 +34,7 @@ params.clientId = clientId;
 params.trustedDomain = trustedDomain;
 params.jwtAudience = jwtAudience;
 params.jwtSecret = jwtSecret;
+params.signingKeyEncryptionSecret = "signing-key-secret";
 params.supportAddr = supportAddr;
 params.sendgridTemplateId = sendgridTemplateId;
 params.sendgridApiKey = sendgridApiKey;
@@ -58,6 +59,7 @@ if (!params.insecureTestToken) {
 }
 params.listen = true;
 params.requireEmailVerification = true;
+params.rateLimits = {};
 params.livekitHost = "livekit";
 params.frontend = false;
 
@@ -1,8 +1,15 @@
 import { Ingest, Price } from "../middleware/hardcoded-nodes";
-import { Stream, User, ApiToken } from "../schema/types";
+import {
+  Stream,
+  User,
+  ApiToken,
+  OrganizationMember,
+  Project,
+} from "../schema/types";
 import { WithID } from "../store/types";
 import Queue from "../store/queue";
 import { TaskScheduler } from "../task/scheduler";
+import WebhookCannon from "../webhooks/cannon";
 import { CliArgs } from "../parse-cli";
 import Stripe from "stripe";
 
@@ -39,11 +46,16 @@ declare global {
       queue?: Queue;
       taskScheduler?: TaskScheduler;
       stripe?: Stripe;
+      webhookCannon?: WebhookCannon;
       frontendDomain: string;
       catalystBaseUrl: string;
       user?: User;
       isUIAdmin?: boolean;
       token?: WithID<ApiToken>;
+      // set when a member makes the request on behalf of an organization
+      member?: WithID<OrganizationMember>;
+      // set when the request is scoped to the resources of a project
+      project?: WithID<Project>;
 
       getBroadcasters?: () => Promise<NodeAddress[]>;
       orchestratorsGetters?: Array<() => Promise<OrchestratorNodeAddress[]>>;
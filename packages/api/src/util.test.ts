@@ -0,0 +1,32 @@
+import { LruCache } from "./util";
+
+describe("LruCache", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should evict the least recently used entries when full", () => {
+    const cache = new LruCache<number>(2);
+    cache.set("a", 1, 1000);
+    cache.set("b", 2, 1000);
+    expect(cache.get("a")).toBe(1);
+    cache.set("c", 3, 1000);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+  });
+
+  it("should expire entries after their TTL", () => {
+    jest.useFakeTimers();
+    const cache = new LruCache<number>(10);
+    cache.set("short", 1, 1000);
+    cache.set("long", 2, 5000);
+
+    jest.advanceTimersByTime(2000);
+    expect(cache.get("short")).toBeUndefined();
+    expect(cache.get("long")).toBe(2);
+    expect(cache.size).toBe(1);
+  });
+});
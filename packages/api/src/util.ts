@@ -159,3 +159,43 @@ export const kebabToCamel = (str: string) => {
   }
   return out;
 };
+
+/**
+ * In-memory cache with a maximum size, whose entries expire after their own
+ * TTL. The least recently used entries are evicted first when it is full.
+ */
+export class LruCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(readonly maxSize: number) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    // maps iterate in insertion order, so re-inserting marks it as recent
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, ttlMs: number) {
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
@@ -8,6 +8,11 @@ import {
 } from "../test-helpers";
 import { semaphore, sleep } from "../util";
 import { sign } from "../controllers/helpers";
+import { db } from "../store";
+import {
+  WEBHOOK_EVENT_RETENTION,
+  WEBHOOK_RESPONSE_RETENTION,
+} from "../store/maintenance";
 
 const bodyParser = require("body-parser");
 jest.setTimeout(15000);
@@ -219,6 +224,518 @@ describe("webhook cannon", () => {
       expect(called).toBe(true);
     });
 
+    it("should record delivery attempts in the webhook log", async () => {
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-log",
+      });
+      expect(res.status).toBe(201);
+      const webhook = await res.json();
+
+      const sem = semaphore();
+      webhookCallback = () => sem.release();
+
+      await server.queue.publishWebhook("events.stream.started", {
+        type: "webhook_event",
+        id: "webhook_test_log",
+        timestamp: Date.now(),
+        streamId: "streamid",
+        event: "stream.started",
+        userId: nonAdminUser.id,
+      });
+
+      await sem.wait(3000);
+      // give the cannon some time to write the response to the db
+      await sleep(200);
+
+      const logRes = await client.get(`/webhook/${webhook.id}/log`);
+      expect(logRes.status).toBe(200);
+      const log = await logRes.json();
+      expect(log).toHaveLength(1);
+      expect(log[0]).toMatchObject({
+        webhookId: webhook.id,
+        eventId: "webhook_test_log",
+        event: "stream.started",
+        statusCode: 204,
+        retries: 0,
+        request: {
+          url: mockWebhook.url,
+          method: "POST",
+        },
+      });
+      expect(log[0].request.headers["Livepeer-Signature"]).toBeDefined();
+      expect(JSON.parse(log[0].request.body)).toMatchObject({
+        event: "stream.started",
+        webhookId: webhook.id,
+      });
+
+      let filtered = await client
+        .get(`/webhook/${webhook.id}/log?success=false`)
+        .then((r) => r.json());
+      expect(filtered).toHaveLength(0);
+      filtered = await client
+        .get(`/webhook/${webhook.id}/log?event=stream.idle`)
+        .then((r) => r.json());
+      expect(filtered).toHaveLength(0);
+    });
+
+    it("should resend a past webhook trigger", async () => {
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-resend",
+      });
+      expect(res.status).toBe(201);
+      const webhook = await res.json();
+
+      let sem = semaphore();
+      let receivedIds = [];
+      webhookCallback = (body) => {
+        receivedIds.push(body.id);
+        sem.release();
+      };
+
+      await server.queue.publishWebhook("events.stream.started", {
+        type: "webhook_event",
+        id: "webhook_test_resend",
+        timestamp: Date.now(),
+        streamId: "streamid",
+        event: "stream.started",
+        userId: nonAdminUser.id,
+      });
+      await sem.wait(3000);
+
+      const triggers = await client
+        .get(`/webhook/${webhook.id}/trigger`)
+        .then((r) => r.json());
+      expect(triggers).toHaveLength(1);
+      expect(triggers[0]).toMatchObject({
+        webhookId: webhook.id,
+        event: { id: "webhook_test_resend", event: "stream.started" },
+      });
+      expect(triggers[0].user).toBeUndefined();
+
+      sem = semaphore();
+      const resendRes = await client.post(
+        `/webhook/${webhook.id}/trigger/${triggers[0].id}/resend`
+      );
+      expect(resendRes.status).toBe(204);
+      await sem.wait(3000);
+      expect(receivedIds).toEqual([
+        "webhook_test_resend",
+        "webhook_test_resend",
+      ]);
+
+      const trigger = await client
+        .get(`/webhook/${webhook.id}/trigger/${triggers[0].id}`)
+        .then((r) => r.json());
+      expect(trigger.lastResentAt).toBeGreaterThan(0);
+
+      const otherRes = await client.post(
+        `/webhook/${webhook.id}/trigger/not-a-trigger/resend`
+      );
+      expect(otherRes.status).toBe(404);
+    });
+
+    it("should prune the oldest webhook triggers beyond the history", async () => {
+      const webhook = await client
+        .post("/webhook", { ...mockWebhook, name: "test-prune" })
+        .then((r) => r.json());
+      const otherWebhook = await client
+        .post("/webhook", { ...mockWebhook, name: "test-prune-other" })
+        .then((r) => r.json());
+
+      const now = Date.now();
+      for (let i = 0; i < 5; i++) {
+        for (const { id, userId } of [webhook, otherWebhook]) {
+          await db.webhookTrigger.record({
+            type: "webhook_trigger",
+            id: `${id}-trigger-${i}`,
+            timestamp: now + i,
+            event: { type: "webhook_event", id: `event-${i}` } as any,
+            webhook: { id, userId } as any,
+            user: nonAdminUser,
+          });
+        }
+      }
+
+      const deleted = await db.webhookTrigger.prune(3, 2);
+      expect(deleted).toBe(4);
+      for (const { id } of [webhook, otherWebhook]) {
+        const triggers = await client
+          .get(`/webhook/${id}/trigger`)
+          .then((r) => r.json());
+        expect(triggers.map((t) => t.id).sort()).toEqual([
+          `${id}-trigger-2`,
+          `${id}-trigger-3`,
+          `${id}-trigger-4`,
+        ]);
+      }
+    });
+
+    it("should delete the delivery attempts older than the retention", async () => {
+      const now = Date.now();
+      for (const [id, createdAt] of [
+        ["old-response", now - WEBHOOK_RESPONSE_RETENTION - 1000],
+        ["recent-response", now],
+      ] as const) {
+        await db.webhookResponse.create({
+          id,
+          webhookId: "webhook-id",
+          statusCode: 200,
+          createdAt,
+        });
+      }
+
+      const deleted = await db.webhookResponse.deleteCreatedBefore(
+        now - WEBHOOK_RESPONSE_RETENTION
+      );
+      expect(deleted).toBe(1);
+      expect(await db.webhookResponse.get("old-response")).toBeNull();
+      expect(await db.webhookResponse.get("recent-response")).toBeTruthy();
+    });
+
+    it("should delete the events older than the retention", async () => {
+      const now = Date.now();
+      for (const [id, createdAt] of [
+        ["old-event", now - WEBHOOK_EVENT_RETENTION - 1000],
+        ["recent-event", now],
+      ] as const) {
+        await db.webhookEvent.create({
+          id,
+          event: "stream.started",
+          userId: adminUser.id,
+          createdAt,
+        });
+      }
+
+      const deleted = await db.webhookEvent.deleteCreatedBefore(
+        now - WEBHOOK_EVENT_RETENTION
+      );
+      expect(deleted).toBe(1);
+      const events = await client.get(`/event`).then((r) => r.json());
+      expect(events.map((e) => e.id)).toEqual(["recent-event"]);
+    });
+
+    it("should test-fire a webhook with a sample payload", async () => {
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-fire",
+      });
+      expect(res.status).toBe(201);
+      const webhook = await res.json();
+
+      let received: any;
+      webhookCallback = (body) => {
+        received = body;
+      };
+
+      const testRes = await client.post(`/webhook/${webhook.id}/test`, {
+        event: "task.failed",
+      });
+      expect(testRes.status).toBe(200);
+      await expect(testRes.json()).resolves.toEqual({ statusCode: 204 });
+      expect(received).toMatchObject({
+        webhookId: webhook.id,
+        event: "task.failed",
+        payload: {
+          success: false,
+          task: { type: "upload", snapshot: { status: { phase: "failed" } } },
+        },
+      });
+
+      const invalidRes = await client.post(`/webhook/${webhook.id}/test`, {
+        event: "stream.unknown",
+      });
+      expect(invalidRes.status).toBe(422);
+
+      // test fires are not deliveries
+      const { status } = await client
+        .get(`/webhook/${webhook.id}`)
+        .then((r) => r.json());
+      expect(status?.lastTriggeredAt).toBeUndefined();
+    });
+
+    it("should not test-fire webhooks of local addresses", async () => {
+      client.jwtAuth = nonAdminToken["token"];
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-fire-local",
+      });
+      expect(res.status).toBe(201);
+      const webhook = await res.json();
+
+      let received = false;
+      webhookCallback = () => {
+        received = true;
+      };
+      const testRes = await client.post(`/webhook/${webhook.id}/test`, {
+        event: "stream.started",
+      });
+      expect(testRes.status).toBe(422);
+      expect(received).toBe(false);
+    });
+
+    it("should render payloads according to the webhook format", async () => {
+      const invalidRes = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-format",
+        format: "template",
+      });
+      expect(invalidRes.status).toBe(422);
+
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-format",
+        format: "template",
+        template: {
+          text: "{{message}} ({{event}})",
+          stream: { name: "{{stream.name}}", live: "{{stream.isActive}}" },
+        },
+      });
+      expect(res.status).toBe(201);
+      const webhook = await res.json();
+
+      let received: any;
+      webhookCallback = (body) => {
+        received = body;
+      };
+
+      let testRes = await client.post(`/webhook/${webhook.id}/test`, {
+        event: "stream.started",
+      });
+      expect(testRes.status).toBe(200);
+      expect(received).toEqual({
+        text: `Stream "sample-stream" is live (stream.started)`,
+        stream: { name: "sample-stream", live: true },
+      });
+
+      const patchRes = await client.patch(`/webhook/${webhook.id}`, {
+        format: "slack",
+      });
+      expect(patchRes.status).toBe(204);
+
+      testRes = await client.post(`/webhook/${webhook.id}/test`, {
+        event: "stream.idle",
+      });
+      expect(testRes.status).toBe(200);
+      expect(received).toEqual({ text: `Stream "sample-stream" went idle` });
+    });
+
+    it("should log events and replay them to a webhook", async () => {
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-replay",
+      });
+      expect(res.status).toBe(201);
+      const webhook = await res.json();
+
+      let sem = semaphore();
+      let receivedIds = [];
+      webhookCallback = (body) => {
+        receivedIds.push(body.id);
+        sem.release();
+      };
+
+      const timestamp = Date.now();
+      await server.queue.publishWebhook("events.stream.started", {
+        type: "webhook_event",
+        id: "webhook_test_replay",
+        timestamp,
+        streamId: "streamid",
+        event: "stream.started",
+        userId: nonAdminUser.id,
+      });
+      await sem.wait(3000);
+
+      const events = await client.get(`/event`).then((r) => r.json());
+      expect(events).toMatchObject([
+        {
+          id: "webhook_test_replay",
+          event: "stream.started",
+          streamId: "streamid",
+          createdAt: timestamp,
+        },
+      ]);
+
+      sem = semaphore();
+      const replayRes = await client.post(
+        `/webhook/${webhook.id}/replay?from=${timestamp}&to=${timestamp + 1}`
+      );
+      expect(replayRes.status).toBe(200);
+      await expect(replayRes.json()).resolves.toEqual({ replayed: 1 });
+      await sem.wait(3000);
+      expect(receivedIds).toEqual([
+        "webhook_test_replay",
+        "webhook_test_replay",
+      ]);
+
+      const emptyRes = await client.post(
+        `/webhook/${webhook.id}/replay?from=${timestamp + 1}`
+      );
+      await expect(emptyRes.json()).resolves.toEqual({ replayed: 0 });
+    });
+
+    it("should stream events over SSE", async () => {
+      const res = await client.get(`/event/stream?event=stream.started`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toBe("text/event-stream");
+
+      const sem = semaphore();
+      let received = "";
+      res.body.on("data", (chunk) => {
+        received += chunk.toString();
+        if (received.includes("id: webhook_test_sse\n")) {
+          sem.release();
+        }
+      });
+      try {
+        await server.queue.publishWebhook("events.stream.started", {
+          type: "webhook_event",
+          id: "webhook_test_sse",
+          timestamp: Date.now(),
+          streamId: "streamid",
+          event: "stream.started",
+          userId: nonAdminUser.id,
+        });
+        await sem.wait(5000);
+        expect(received).toContain("event: stream.started\n");
+      } finally {
+        (res.body as any).destroy();
+      }
+    });
+
+    it("should stream events published late and resume after the last", async () => {
+      let res = await client.get(`/event/stream`);
+      expect(res.status).toBe(200);
+
+      let sem = semaphore();
+      let received = "";
+      res.body.on("data", (chunk) => {
+        received += chunk.toString();
+        if (received.includes("id: webhook_test_sse_delayed\n")) {
+          sem.release();
+        }
+      });
+      const publishEvent = (id: string, timestamp: number) =>
+        server.queue.publishWebhook("events.recording.waiting", {
+          type: "webhook_event",
+          id,
+          timestamp,
+          event: "recording.waiting",
+          userId: nonAdminUser.id,
+        });
+      try {
+        // like recording.waiting, which is published well after it happened
+        await publishEvent("webhook_test_sse_delayed", Date.now() - 70 * 1000);
+        await sem.wait(5000);
+        expect(received).toContain("event: recording.waiting\n");
+      } finally {
+        (res.body as any).destroy();
+      }
+
+      await publishEvent("webhook_test_sse_missed", Date.now());
+      await sleep(500);
+      res = await client.fetch(`/event/stream`, {
+        headers: { "Last-Event-ID": "webhook_test_sse_delayed" },
+      });
+      sem = semaphore();
+      received = "";
+      res.body.on("data", (chunk) => {
+        received += chunk.toString();
+        if (received.includes("id: webhook_test_sse_missed\n")) {
+          sem.release();
+        }
+      });
+      try {
+        await sem.wait(5000);
+        expect(received).toContain("id: webhook_test_sse_missed\n");
+        expect(received).not.toContain("id: webhook_test_sse_delayed\n");
+      } finally {
+        (res.body as any).destroy();
+      }
+    });
+
+    it("should only send events matching the webhook filters", async () => {
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-filters",
+        events: ["asset.ready"],
+        filters: { creatorIds: ["tenant-a"] },
+      });
+      expect(res.status).toBe(201);
+
+      const sem = semaphore();
+      let receivedIds = [];
+      webhookCallback = (body) => {
+        receivedIds.push(body.id);
+        sem.release();
+      };
+
+      for (const creatorId of ["tenant-b", "tenant-a"]) {
+        await server.queue.publishWebhook("events.asset.ready", {
+          type: "webhook_event",
+          id: `webhook_test_filters_${creatorId}`,
+          timestamp: Date.now(),
+          event: "asset.ready",
+          userId: nonAdminUser.id,
+          payload: {
+            id: "assetid",
+            snapshot: { creatorId: { type: "unverified", value: creatorId } },
+          },
+        });
+      }
+      await sem.wait(3000);
+      await sleep(500);
+      expect(receivedIds).toEqual(["webhook_test_filters_tenant-a"]);
+    });
+
+    it("should match the creator of the asset of task events", async () => {
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-filters-task",
+        events: ["task.completed"],
+        filters: { creatorIds: ["tenant-a"] },
+      });
+      expect(res.status).toBe(201);
+      for (const creatorId of ["tenant-b", "tenant-a"]) {
+        await db.asset.create({
+          id: `asset-${creatorId}`,
+          name: "test-asset",
+          userId: nonAdminUser.id,
+          creatorId: { type: "unverified", value: creatorId },
+          source: { type: "url", url: "https://example.com/video.mp4" },
+          status: { phase: "ready", updatedAt: Date.now() },
+        });
+      }
+
+      const sem = semaphore();
+      let receivedIds = [];
+      webhookCallback = (body) => {
+        receivedIds.push(body.id);
+        sem.release();
+      };
+
+      for (const creatorId of ["tenant-b", "tenant-a"]) {
+        await server.queue.publishWebhook("events.task.completed", {
+          type: "webhook_event",
+          id: `webhook_test_filters_task_${creatorId}`,
+          timestamp: Date.now(),
+          event: "task.completed",
+          userId: nonAdminUser.id,
+          payload: {
+            task: {
+              id: "taskid",
+              type: "upload",
+              snapshot: { outputAssetId: `asset-${creatorId}` },
+            },
+          },
+        });
+      }
+      await sem.wait(3000);
+      await sleep(500);
+      expect(receivedIds).toEqual(["webhook_test_filters_task_tenant-a"]);
+    });
+
     it("should call multiple webhooks", async () => {
       let res = await client.post("/webhook", {
         ...mockWebhook,
@@ -354,5 +871,63 @@ describe("webhook cannon", () => {
       await Promise.all(sems.map((s) => s.wait(3000)));
       expect(calledCounts).toEqual([4, 2]);
     });
+
+    it("should disable a persistently failing webhook", async () => {
+      const res = await client.post("/webhook", {
+        ...mockWebhook,
+        name: "test-disable",
+      });
+      expect(res.status).toBe(201);
+      const webhook = await res.json();
+
+      const sem = semaphore();
+      let calledCount = 0;
+      webhookCallback = () => {
+        if (++calledCount >= 3) sem.release();
+        throw new Error("nobody's home 💀");
+      };
+      server.webhook.calcBackoff = () => 100;
+      server.webhook.disableAfterFailures = 3;
+      server.webhook.disableAfterFailingFor = 0;
+
+      try {
+        await server.queue.publishWebhook("events.stream.started", {
+          type: "webhook_event",
+          id: "webhook_test_disable",
+          timestamp: Date.now(),
+          streamId: "streamid",
+          event: "stream.started",
+          userId: nonAdminUser.id,
+        });
+        await sem.wait(3000);
+        await sleep(500);
+        expect(calledCount).toBe(3);
+
+        let updated = await client
+          .get(`/webhook/${webhook.id}`)
+          .then((r) => r.json());
+        expect(updated).toMatchObject({
+          disabled: true,
+          disabledReason: expect.stringContaining("3 consecutive deliveries"),
+          status: { consecutiveFailures: 3 },
+        });
+
+        const patchRes = await client.patch(`/webhook/${webhook.id}`, {
+          disabled: false,
+        });
+        expect(patchRes.status).toBe(204);
+        updated = await client
+          .get(`/webhook/${webhook.id}`)
+          .then((r) => r.json());
+        expect(updated).toMatchObject({
+          disabled: false,
+          status: { consecutiveFailures: 0 },
+        });
+        expect(updated.disabledReason).toBeUndefined();
+      } finally {
+        server.webhook.disableAfterFailures = 50;
+        server.webhook.disableAfterFailingFor = 24 * 60 * 60 * 1000;
+      }
+    });
   });
 });
@@ -1,5 +1,6 @@
 import { ConsumeMessage } from "amqplib";
 import { promises as dns } from "dns";
+import { isIP } from "net";
 import isLocalIP from "is-local-ip";
 import { Response } from "node-fetch";
 import { v4 as uuid } from "uuid";
@@ -21,11 +22,24 @@ import { BadRequestError, UnprocessableEntityError } from "../store/errors";
 import { db } from "../store";
 import { buildRecordingUrl } from "../controllers/session";
 import { isExperimentSubject } from "../store/experiment-table";
+import {
+  EventSubject,
+  eventSubject,
+  matchesFilters,
+  matchesProject,
+} from "./filters";
+import { renderWebhookBody } from "./formats";
+import { User } from "../schema/types";
+import { WithID } from "../store/types";
 
 const WEBHOOK_TIMEOUT = 5 * 1000;
 const MAX_BACKOFF = 60 * 60 * 1000;
 const BACKOFF_COEF = 2;
 const MAX_RETRIES = 33;
+// Webhooks get disabled after this many consecutive failed deliveries, as long
+// as they have also been failing for at least the given duration.
+const DISABLE_AFTER_FAILURES = 50;
+const DISABLE_AFTER_FAILING_FOR = 24 * 60 * 60 * 1000;
 
 const SIGNATURE_HEADER = "Livepeer-Signature";
 
@@ -39,6 +53,11 @@ function isRuntimeError(err: any): boolean {
   return runtimeErrors.some((re) => err instanceof re);
 }
 
+export type FireHookResult = {
+  statusCode: number;
+  errorMessage?: string;
+};
+
 export default class WebhookCannon {
   db: DB;
   running: boolean;
@@ -53,6 +72,8 @@ export default class WebhookCannon {
   secondaryRecordObjectStoreId: string;
   resolver: any;
   queue: Queue;
+  disableAfterFailures = DISABLE_AFTER_FAILURES;
+  disableAfterFailingFor = DISABLE_AFTER_FAILING_FOR;
   constructor({
     db,
     frontendDomain,
@@ -138,35 +159,44 @@ export default class WebhookCannon {
       }
     }
 
-    const { data: webhooks } = await this.db.webhook.listSubscribed(
+    let stream: DBStream | undefined;
+    if (streamId) {
+      stream = await this.getStreamSnapshot(streamId);
+    }
+    const subject = await this.resolveEventSubject(msg, stream);
+    await this.recordEvent(msg, subject);
+
+    const { data: subscribed } = await this.db.webhook.listSubscribed(
       userId,
       event
     );
 
     console.log(
       `fetched webhooks. userId=${userId} event=${event} webhooks=`,
-      webhooks
+      subscribed
     );
-    if (webhooks.length === 0) {
+    if (subscribed.length === 0) {
       return true;
     }
 
-    let stream: DBStream | undefined;
-    if (streamId) {
-      stream = await this.db.stream.get(streamId, {
-        useReplica: false,
-      });
-      if (!stream) {
-        // if stream isn't found. don't fire the webhook, log an error
-        throw new Error(
-          `webhook Cannon: onTrigger: Stream Not found , streamId: ${streamId}`
-        );
-      }
-      // basic sanitization.
-      stream = this.db.stream.addDefaultFields(
-        this.db.stream.removePrivateFields({ ...stream })
+    if (streamId && !stream) {
+      // if stream isn't found. don't fire the webhook, log an error
+      throw new Error(
+        `webhook Cannon: onTrigger: Stream Not found , streamId: ${streamId}`
       );
-      delete stream.streamKey;
+    }
+
+    const webhooks = subscribed.filter(
+      (webhook) =>
+        matchesProject(webhook, subject) &&
+        matchesFilters(webhook.filters, subject)
+    );
+    if (webhooks.length === 0) {
+      console.log(
+        `no webhooks matching event filters. userId=${userId} event=${event} subject=`,
+        subject
+      );
+      return true;
     }
 
     let user = await this.db.user.get(userId);
@@ -187,13 +217,11 @@ export default class WebhookCannon {
         user,
       };
       await Promise.all(
-        webhooks.map((webhook) =>
-          this.queue.publishWebhook("webhooks.triggers", {
-            ...baseTrigger,
-            id: uuid(),
-            webhook,
-          })
-        )
+        webhooks.map(async (webhook) => {
+          const trigger = { ...baseTrigger, id: uuid(), webhook };
+          await this.recordTrigger(trigger);
+          return this.queue.publishWebhook("webhooks.triggers", trigger);
+        })
       );
     } catch (error) {
       console.log("Error publish webhook trigger message: ", error);
@@ -202,6 +230,107 @@ export default class WebhookCannon {
     return true;
   }
 
+  async getStreamSnapshot(streamId: string) {
+    const stream = await this.db.stream.get(streamId, {
+      useReplica: false,
+    });
+    if (!stream) {
+      return undefined;
+    }
+    // basic sanitization.
+    const snapshot = this.db.stream.addDefaultFields(
+      this.db.stream.removePrivateFields({ ...stream })
+    );
+    delete snapshot.streamKey;
+    return snapshot;
+  }
+
+  async recordEvent(msg: messages.WebhookEvent, subject: EventSubject) {
+    try {
+      await this.db.webhookEvent.record(msg, subject);
+    } catch (e) {
+      // events are redelivered when nacked, so they might be stored already
+      if (e instanceof BadRequestError) {
+        return;
+      }
+      console.log(`Unable to record event id=${msg.id} err=`, e);
+    }
+  }
+
+  // Enqueues past events to a single webhook, e.g. to backfill deliveries that
+  // were missed while its receiver was down. Returns the number of events sent.
+  async replayEvents(
+    webhook: DBWebhook,
+    user: WithID<User>,
+    events: messages.WebhookEvent[]
+  ) {
+    const streams: Record<string, DBStream> = {};
+    let replayed = 0;
+    for (const event of events) {
+      const { streamId } = event;
+      if (streamId && !(streamId in streams)) {
+        streams[streamId] = await this.getStreamSnapshot(streamId);
+      }
+      const stream = streamId ? streams[streamId] : undefined;
+      if (streamId && !stream) {
+        continue;
+      }
+
+      const subject = await this.resolveEventSubject(event, stream);
+      if (
+        !matchesProject(webhook, subject) ||
+        !matchesFilters(webhook.filters, subject)
+      ) {
+        continue;
+      }
+      await this.queue.publishWebhook("webhooks.triggers", {
+        type: "webhook_trigger",
+        id: uuid(),
+        timestamp: Date.now(),
+        streamId,
+        event,
+        stream,
+        user,
+        webhook,
+      });
+      replayed++;
+    }
+    return replayed;
+  }
+
+  async resolveEventSubject(
+    msg: messages.WebhookEvent,
+    stream: DBStream | undefined
+  ) {
+    const { sessionId } = msg;
+    if (!stream && sessionId) {
+      // events of a session are matched against the filters of its parent
+      const session = await this.db.session.get(sessionId);
+      if (session?.parentId) {
+        stream = await this.db.stream.get(session.parentId);
+      }
+    }
+    const subject = eventSubject(msg, stream);
+    if (subject.assetId && (!subject.creatorId || !subject.projectId)) {
+      // task events only have the asset ID, not the asset itself
+      const asset = await this.db.asset.get(subject.assetId);
+      subject.creatorId = subject.creatorId ?? asset?.creatorId?.value;
+      subject.projectId = subject.projectId ?? asset?.projectId;
+    }
+    return subject;
+  }
+
+  async recordTrigger(trigger: messages.WebhookTrigger) {
+    try {
+      await this.db.webhookTrigger.record(trigger);
+    } catch (e) {
+      console.log(
+        `Unable to record trigger of webhook ${trigger.webhook.id} triggerId=${trigger.id} err=`,
+        e
+      );
+    }
+  }
+
   async handleWebhookQueue(data: ConsumeMessage) {
     let trigger: messages.WebhookTrigger;
     try {
@@ -213,6 +342,17 @@ export default class WebhookCannon {
       return;
     }
     try {
+      if (trigger.retries) {
+        // reload the webhook so retries honor its current state and secrets
+        const webhook = await this.getActiveWebhook(trigger.webhook?.id);
+        if (!webhook) {
+          console.log(
+            `webhookCannon: dropping retry of inactive webhook id=${trigger.webhook?.id} triggerId=${trigger.id}`
+          );
+          return;
+        }
+        trigger = { ...trigger, webhook };
+      }
       // TODO Activate URL Verification
       await this._fireHook(trigger, false);
     } catch (err) {
@@ -223,6 +363,29 @@ export default class WebhookCannon {
     }
   }
 
+  async getActiveWebhook(id: string) {
+    const webhook = await this.db.webhook.get(id, { useReplica: false });
+    if (!webhook || webhook.deleted || webhook.disabled) {
+      return null;
+    }
+    return webhook;
+  }
+
+  // Fires a synthetic trigger synchronously, without retries, so that the
+  // receiver's response status can be returned straight to the caller. The
+  // URL is always verified, even if verification is disabled for deliveries,
+  // since the caller gets to see the outcome.
+  async fireTestHook(
+    trigger: messages.WebhookTrigger
+  ): Promise<FireHookResult> {
+    try {
+      return await this._fireHook(trigger, true, true);
+    } catch (err) {
+      // only URL verification throws, as delivery errors are returned
+      return { statusCode: 0, errorMessage: `unable to resolve webhook url` };
+    }
+  }
+
   stop() {
     // this.db.queue.unsetMsgHandler();
     this.running = false;
@@ -333,7 +496,11 @@ export default class WebhookCannon {
     );
   }
 
-  async _fireHook(trigger: messages.WebhookTrigger, verifyUrl = true) {
+  async _fireHook(
+    trigger: messages.WebhookTrigger,
+    verifyUrl = true,
+    isTest = false
+  ): Promise<FireHookResult> {
     const { event, webhook, stream, user } = trigger;
     if (!event || !webhook || !user) {
       console.error(
@@ -347,7 +514,9 @@ export default class WebhookCannon {
     if (verifyUrl) {
       try {
         urlObj = parseUrl(webhook.url);
-        if (urlObj.host) {
+        if (isIP(urlObj.hostname)) {
+          ips = [urlObj.hostname];
+        } else if (urlObj.host) {
           ips = await this.resolver.resolve4(urlObj.hostname);
         }
       } catch (e) {
@@ -387,20 +556,12 @@ export default class WebhookCannon {
           "user-agent": "livepeer.studio",
         },
         timeout: WEBHOOK_TIMEOUT,
-        body: JSON.stringify({
-          id: event.id, // allows receiver to check if they have already processed the same event (possible when retrying)
-          webhookId: webhook.id,
-          createdAt: event.timestamp, // allows receiver to know how long ago event was emitted
-          timestamp,
-          event: event.event,
-          stream,
-          payload: event.payload,
-        }),
+        body: renderWebhookBody(trigger, timestamp),
       };
 
-      const sigHeaders = signatureHeaders(
+      const sigHeaders = webhookSignatureHeaders(
         params.body,
-        webhook.sharedSecret,
+        webhook,
         timestamp
       );
       params.headers = { ...params.headers, ...sigHeaders };
@@ -420,9 +581,9 @@ export default class WebhookCannon {
         if (resp.status >= 200 && resp.status < 300) {
           // 2xx requests are cool. all is good
           logger.info(`webhook ${webhook.id} fired successfully`);
-          return true;
+          return;
         }
-        if (resp.status >= 500) {
+        if (resp.status >= 500 && !isTest) {
           await this.retry(
             trigger,
             params,
@@ -438,17 +599,35 @@ export default class WebhookCannon {
       } catch (e) {
         console.log("firing error", e);
         errorMessage = e.message;
-        await this.retry(trigger, params, e);
+        if (!isTest) {
+          await this.retry(trigger, params, e);
+        }
       } finally {
-        await this.storeResponse(webhook, event, resp, startTime, responseBody);
-        await this.storeTriggerStatus(
-          trigger.webhook,
-          triggerTime,
-          statusCode,
-          errorMessage,
-          responseBody
+        await this.storeResponse(
+          trigger,
+          params,
+          resp,
+          startTime,
+          responseBody,
+          errorMessage
         );
-        return;
+        if (!isTest) {
+          // test fires are not deliveries, so they don't affect the status
+          await this.storeTriggerStatus(
+            trigger.webhook,
+            triggerTime,
+            statusCode,
+            errorMessage,
+            responseBody
+          );
+          await this.updateFailureStreak(
+            trigger.webhook,
+            triggerTime,
+            statusCode,
+            errorMessage
+          );
+        }
+        return { statusCode, errorMessage };
       }
     }
   }
@@ -469,31 +648,103 @@ export default class WebhookCannon {
     );
   }
 
-  async storeResponse(
+  // Disables the webhook once it has been failing consistently for a while, so
+  // that dead receivers stop generating deliveries and retries.
+  async updateFailureStreak(
     webhook: DBWebhook,
-    event: messages.WebhookEvent,
+    triggerTime: number,
+    statusCode: number,
+    errorMessage: string
+  ) {
+    const failed = !(statusCode >= 200 && statusCode < 300);
+    try {
+      const status = await this.db.webhook.updateFailureStreak(
+        webhook.id,
+        failed,
+        triggerTime
+      );
+      if (
+        !failed ||
+        !status ||
+        status.consecutiveFailures < this.disableAfterFailures ||
+        triggerTime - status.failingSince < this.disableAfterFailingFor
+      ) {
+        return;
+      }
+
+      const since = new Date(status.failingSince).toISOString();
+      const lastError = errorMessage ?? `Status code: ${statusCode}`;
+      const disabledReason = `Webhook failed ${status.consecutiveFailures} consecutive deliveries since ${since}. Last error: ${lastError}`;
+      const disabled = await this.db.webhook.disable(
+        webhook.id,
+        disabledReason
+      );
+      if (!disabled) {
+        return;
+      }
+      logger.info(`webhook ${webhook.id} disabled reason="${disabledReason}"`);
+
+      await this.queue.publishWebhook("events.webhook.disabled", {
+        type: "webhook_event",
+        id: uuid(),
+        timestamp: Date.now(),
+        event: "webhook.disabled",
+        userId: webhook.userId,
+        payload: {
+          webhook: {
+            id: webhook.id,
+            name: webhook.name,
+            url: webhook.url,
+            disabledReason,
+          },
+        },
+      });
+    } catch (e) {
+      console.log(
+        `Unable to update failure streak of webhook ${webhook.id} url: ${webhook.url} err=`,
+        e
+      );
+    }
+  }
+
+  async storeResponse(
+    trigger: messages.WebhookTrigger,
+    params: RequestInitWithTimeout,
     resp: Response,
     startTime: [number, number],
-    responseBody: string
+    responseBody: string,
+    errorMessage?: string
   ) {
+    const { webhook, event } = trigger;
     try {
       const hrDuration = process.hrtime(startTime);
-      let encodedResponseBody = Buffer.from(responseBody).toString("base64");
+      const statusCode = resp?.status ?? 0;
 
       await this.db.webhookResponse.create({
         id: uuid(),
         webhookId: webhook.id,
         eventId: event.id,
+        event: event.event,
         createdAt: Date.now(),
         duration: hrDuration[0] + hrDuration[1] / 1e9,
-        statusCode: resp.status,
-        response: {
-          body: encodedResponseBody,
-          headers: resp.headers.raw(),
-          redirected: resp.redirected,
-          status: resp.status,
-          statusText: resp.statusText,
+        retries: trigger.retries ?? 0,
+        statusCode,
+        errorMessage,
+        request: {
+          url: webhook.url,
+          method: params.method,
+          headers: params.headers as Record<string, string>,
+          body: params.body as string,
         },
+        response: !resp
+          ? undefined
+          : {
+              body: Buffer.from(responseBody ?? "").toString("base64"),
+              headers: resp.headers.raw(),
+              redirected: resp.redirected,
+              status: resp.status,
+              statusText: resp.statusText,
+            },
       });
     } catch (e) {
       console.log(
@@ -560,11 +811,15 @@ export default class WebhookCannon {
     startedAt = startedAt.substring(0, startedAt.length - 8) + "Z";
 
     try {
+      // recordings belong to the same project as their stream
+      const stream =
+        session.parentId && (await this.db.stream.get(session.parentId));
       const asset = await createAsset(
         {
           id,
           playbackId,
           userId: session.userId,
+          projectId: stream?.projectId,
           createdAt: session.createdAt,
           source: { type: "recording", sessionId: session.id },
           status: { phase: "waiting", updatedAt: Date.now() },
@@ -657,9 +912,30 @@ export function webhookFailNotification(
 export function signatureHeaders(
   payload: string,
   sharedSecret: string,
-  timestamp: number
+  timestamp: number,
+  previousSharedSecret?: string
 ): { [key: string]: string } | {} {
   if (!sharedSecret) return {};
-  let signature = sign(payload, sharedSecret);
-  return { [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}` };
+  const signatures = [sharedSecret, previousSharedSecret]
+    .filter(Boolean)
+    .map((secret) => `v1=${sign(payload, secret)}`);
+  return { [SIGNATURE_HEADER]: [`t=${timestamp}`, ...signatures].join(",") };
+}
+
+// Signs the payload with the current shared secret of the webhook and, while
+// a rotation is still in its grace period, with the previous one as well.
+export function webhookSignatureHeaders(
+  payload: string,
+  webhook: DBWebhook,
+  timestamp: number
+) {
+  const { sharedSecret, previousSharedSecret, previousSharedSecretExpiresAt } =
+    webhook;
+  const previousActive = previousSharedSecretExpiresAt > timestamp;
+  return signatureHeaders(
+    payload,
+    sharedSecret,
+    timestamp,
+    previousActive ? previousSharedSecret : undefined
+  );
 }
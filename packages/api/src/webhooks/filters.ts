@@ -0,0 +1,92 @@
+import { Task, Webhook } from "../schema/types";
+import messages from "../store/messages";
+import { DBStream } from "../store/stream-table";
+
+export type WebhookFilters = Webhook["filters"];
+
+// Resources an event relates to, which webhook filters are matched against.
+export type EventSubject = {
+  streamId?: string;
+  assetId?: string;
+  creatorId?: string;
+  taskType?: Task["type"];
+  projectId?: string;
+};
+
+/**
+ * Extracts the resources related to an event from its message and payload.
+ *
+ * @param stream The stream of the event, already resolved to the parent stream
+ * for events of a session.
+ */
+export function eventSubject(
+  msg: messages.WebhookEvent,
+  stream?: DBStream
+): EventSubject {
+  const { event, payload } = msg;
+  const subject: EventSubject = {
+    streamId: stream?.id ?? msg.streamId,
+    creatorId: stream?.creatorId?.value,
+    projectId: stream?.projectId,
+  };
+
+  switch (event) {
+    case "asset.created":
+    case "asset.updated":
+    case "asset.deleted":
+      subject.assetId = payload?.asset?.id;
+      subject.creatorId = payload?.asset?.snapshot?.creatorId?.value;
+      subject.projectId = payload?.asset?.snapshot?.projectId;
+      break;
+    case "asset.ready":
+    case "asset.failed":
+      subject.assetId = payload?.id;
+      subject.creatorId = payload?.snapshot?.creatorId?.value;
+      subject.projectId = payload?.snapshot?.projectId;
+      break;
+    case "task.spawned":
+    case "task.updated":
+    case "task.completed":
+    case "task.failed": {
+      const task: messages.TaskInfo = payload?.task;
+      subject.taskType = task?.type;
+      subject.assetId =
+        task?.snapshot?.outputAssetId ?? task?.snapshot?.inputAssetId;
+      break;
+    }
+  }
+  return subject;
+}
+
+/**
+ * Returns whether the event subject matches all the filters of a webhook. A
+ * filter that is set only matches events that relate to one of its values.
+ */
+export function matchesFilters(
+  filters: WebhookFilters,
+  subject: EventSubject
+): boolean {
+  if (!filters) {
+    return true;
+  }
+  const checks: [string[], string][] = [
+    [filters.streamIds, subject.streamId],
+    [filters.assetIds, subject.assetId],
+    [filters.creatorIds, subject.creatorId],
+    [filters.taskTypes, subject.taskType],
+  ];
+  return checks.every(
+    ([allowed, value]) => !allowed || (!!value && allowed.includes(value))
+  );
+}
+
+/**
+ * Returns whether the event relates to the project of a webhook. Webhooks that
+ * belong to no project receive the events of all of them.
+ */
+export function matchesProject(
+  webhook: Pick<Webhook, "projectId">,
+  subject: EventSubject
+): boolean {
+  return !webhook.projectId || webhook.projectId === subject.projectId;
+}
@@ -0,0 +1,145 @@
+import { Webhook } from "../schema/types";
+import messages from "../store/messages";
+
+export type WebhookFormat = Webhook["format"];
+
+const PLACEHOLDER_REGEX = /{{\s*([\w.]+)\s*}}/g;
+
+/**
+ * Values that placeholders in webhook templates are resolved against, e.g.
+ * `{{stream.name}}` or `{{sessionId}}`.
+ */
+export function templateContext(
+  trigger: messages.WebhookTrigger,
+  timestamp: number
+) {
+  const { event, webhook, stream } = trigger;
+  return {
+    id: event.id,
+    event: event.event,
+    createdAt: event.timestamp,
+    timestamp,
+    webhookId: webhook.id,
+    userId: event.userId,
+    streamId: event.streamId,
+    sessionId: event.sessionId,
+    stream: stream && {
+      id: stream.id,
+      name: stream.name,
+      playbackId: stream.playbackId,
+      isActive: stream.isActive,
+    },
+    webhook: { id: webhook.id, name: webhook.name },
+    message: describeEvent(trigger),
+    payload: event.payload,
+  };
+}
+
+function resolvePath(context: any, path: string) {
+  return path
+    .split(".")
+    .reduce((obj, key) => (obj == null ? undefined : obj[key]), context);
+}
+
+function renderString(str: string, context: object) {
+  // keep the type of the value when the string is a single placeholder, so
+  // that objects and numbers can be placed in the template as well
+  const whole = str.match(/^{{\s*([\w.]+)\s*}}$/);
+  if (whole) {
+    return resolvePath(context, whole[1]) ?? null;
+  }
+  return str.replace(PLACEHOLDER_REGEX, (_, path) => {
+    const value = resolvePath(context, path);
+    if (value == null) {
+      return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : `${value}`;
+  });
+}
+
+/**
+ * Replaces the placeholders in all the strings of a JSON template, including
+ * object keys, with the corresponding values of the context.
+ */
+export function renderTemplate(template: any, context: object): any {
+  if (typeof template === "string") {
+    return renderString(template, context);
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderTemplate(item, context));
+  }
+  if (template && typeof template === "object") {
+    const rendered = {};
+    for (const [key, value] of Object.entries(template)) {
+      rendered[`${renderString(key, context)}`] = renderTemplate(
+        value,
+        context
+      );
+    }
+    return rendered;
+  }
+  return template;
+}
+
+/**
+ * Returns a human-readable description of the event, used as the message
+ * sent to chat services.
+ */
+export function describeEvent(trigger: messages.WebhookTrigger): string {
+  const { event, stream } = trigger;
+  const streamName = stream ? `"${stream.name}"` : "";
+  switch (event.event) {
+    case "stream.started":
+      return `Stream ${streamName} is live`;
+    case "stream.idle":
+      return `Stream ${streamName} went idle`;
+    case "stream.unhealthy": {
+      const issues: string[] = event.payload?.issues ?? [];
+      return (
+        `Stream ${streamName} is unhealthy` +
+        (issues.length ? `: ${issues.join(", ")}` : "")
+      );
+    }
+    case "stream.healthy":
+      return `Stream ${streamName} is healthy again`;
+    case "session.ended":
+      return `Session ${event.sessionId} of stream ${streamName} ended`;
+    case "recording.ready":
+      return `Recording of stream ${streamName} is ready: ${event.payload?.recordingUrl}`;
+    case "webhook.disabled":
+      return `Webhook "${event.payload?.webhook?.name}" was disabled: ${event.payload?.webhook?.disabledReason}`;
+  }
+  return stream
+    ? `Livepeer Studio event ${event.event} for stream ${streamName}`
+    : `Livepeer Studio event ${event.event}`;
+}
+
+/**
+ * Builds the body of the webhook request according to the format of the
+ * webhook. This is the exact body that gets signed.
+ */
+export function renderWebhookBody(
+  trigger: messages.WebhookTrigger,
+  timestamp: number
+): string {
+  const { event, webhook, stream } = trigger;
+  switch (webhook.format) {
+    case "slack":
+      return JSON.stringify({ text: describeEvent(trigger) });
+    case "discord":
+      return JSON.stringify({ content: describeEvent(trigger) });
+    case "template":
+      return JSON.stringify(
+        renderTemplate(webhook.template, templateContext(trigger, timestamp))
+      );
+  }
+  return JSON.stringify({
+    id: event.id, // allows receiver to check if they have already processed the same event (possible when retrying)
+    webhookId: webhook.id,
+    createdAt: event.timestamp, // allows receiver to know how long ago event was emitted
+    timestamp,
+    event: event.event,
+    stream,
+    payload: event.payload,
+  });
+}
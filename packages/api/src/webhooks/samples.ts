@@ -0,0 +1,298 @@
+import { v4 as uuid } from "uuid";
+import { Asset, Task, User } from "../schema/types";
+import messages from "../store/messages";
+import { DBSession } from "../store/session-table";
+import { DBStream } from "../store/stream-table";
+import { WithID } from "../store/types";
+import { DBWebhook, EventKey } from "../store/webhook-table";
+
+// Synthetic objects used for test-firing webhooks. They mimic the shape of
+// the external objects sent on real events (e.g. the output of
+// toExternalAsset or toExternalSession) but are never stored anywhere.
+
+const SAMPLE_PLAYBACK_ID = "samp1e0pl4ybck1d";
+
+function sampleStream(userId: string, now: number): DBStream {
+  return {
+    id: uuid(),
+    kind: "stream",
+    name: "sample-stream",
+    userId,
+    playbackId: SAMPLE_PLAYBACK_ID,
+    createdAt: now - 60 * 60 * 1000,
+    lastSeen: now,
+    isActive: true,
+    isHealthy: true,
+    record: true,
+    suspended: false,
+    sourceSegments: 900,
+    transcodedSegments: 1800,
+    sourceSegmentsDuration: 1800,
+    transcodedSegmentsDuration: 3600,
+    sourceBytes: 450000000,
+    transcodedBytes: 600000000,
+    profiles: [
+      { name: "720p", bitrate: 2000000, fps: 30, width: 1280, height: 720 },
+      { name: "360p", bitrate: 1000000, fps: 30, width: 640, height: 360 },
+    ],
+  };
+}
+
+function sampleSession(stream: DBStream, now: number): DBSession {
+  const id = uuid();
+  return {
+    id,
+    kind: "session",
+    name: stream.name,
+    userId: stream.userId,
+    parentId: stream.id,
+    playbackId: SAMPLE_PLAYBACK_ID,
+    createdAt: now - 30 * 60 * 1000,
+    lastSeen: now,
+    record: true,
+    sourceSegments: 900,
+    transcodedSegments: 1800,
+    sourceSegmentsDuration: 1800,
+    transcodedSegmentsDuration: 3600,
+    sourceBytes: 450000000,
+    transcodedBytes: 600000000,
+    ingestRate: 250000,
+    outgoingRate: 333333,
+    isHealthy: true,
+    profiles: stream.profiles,
+    recordingStatus: "ready",
+    recordingUrl: `https://livepeercdn.studio/recordings/${id}/index.m3u8`,
+    mp4Url: `https://livepeercdn.studio/recordings/${id}/source.mp4`,
+  };
+}
+
+function sampleAsset(
+  userId: string,
+  now: number,
+  phase: Asset["status"]["phase"]
+): WithID<Asset> {
+  const ready = phase === "ready";
+  return {
+    id: uuid(),
+    type: "video",
+    name: "sample-asset.mp4",
+    userId,
+    playbackId: SAMPLE_PLAYBACK_ID,
+    createdAt: now - 5 * 60 * 1000,
+    source: { type: "directUpload" },
+    status: {
+      phase,
+      updatedAt: now,
+      ...(phase === "failed" && { errorMessage: "Sample asset failure" }),
+    },
+    ...(ready && {
+      playbackUrl: `https://livepeercdn.studio/asset/${SAMPLE_PLAYBACK_ID}/index.m3u8`,
+      downloadUrl: `https://livepeercdn.studio/asset/${SAMPLE_PLAYBACK_ID}/video`,
+      size: 84934509,
+      videoSpec: {
+        format: "mp4",
+        duration: 23.8328,
+        bitrate: 1000000,
+      },
+    }),
+  };
+}
+
+function sampleTask(
+  userId: string,
+  assetId: string,
+  now: number,
+  phase: Task["status"]["phase"]
+): WithID<Task> {
+  return {
+    id: uuid(),
+    type: "upload",
+    userId,
+    outputAssetId: assetId,
+    createdAt: now - 5 * 60 * 1000,
+    scheduledAt: now - 5 * 60 * 1000,
+    params: {
+      upload: { url: "https://example.com/sample-asset.mp4" },
+    },
+    status: {
+      phase,
+      updatedAt: now,
+      ...(phase === "running" && { progress: 0.5 }),
+      ...(phase === "failed" && { errorMessage: "Sample task failure" }),
+    },
+  };
+}
+
+function samplePayload(
+  event: EventKey,
+  stream: DBStream,
+  now: number
+): Pick<messages.WebhookEvent, "sessionId" | "payload"> {
+  const { userId } = stream;
+  switch (event) {
+    case "stream.detection":
+      return {
+        payload: {
+          seqNo: 42,
+          sceneClassification: [
+            { name: "soccer", probability: 0.91 },
+            { name: "adult", probability: 0.02 },
+          ],
+        },
+      };
+    case "stream.unhealthy":
+    case "stream.healthy": {
+      const isHealthy = event === "stream.healthy";
+      return {
+        sessionId: uuid(),
+        payload: {
+          isHealthy,
+          issues: isHealthy
+            ? []
+            : ["Stream is not being transcoded in real time"],
+          tracks: [
+            {
+              id: "video",
+              codec: "H264",
+              kbits: 2500,
+              fps: 30,
+              width: 1280,
+              height: 720,
+            },
+            { id: "audio", codec: "AAC", kbits: 128 },
+          ],
+        },
+      };
+    }
+    case "session.ended": {
+      const session = sampleSession(stream, now);
+      return { sessionId: session.id, payload: { session } };
+    }
+    case "recording.started":
+    case "recording.waiting":
+    case "recording.ready": {
+      const session = sampleSession(stream, now);
+      if (event === "recording.started") {
+        return { payload: { session } };
+      }
+      const readySession = { ...session, assetId: session.id };
+      return {
+        sessionId: session.id,
+        payload:
+          event === "recording.ready"
+            ? {
+                recordingUrl: session.recordingUrl,
+                mp4Url: session.mp4Url,
+                session: readySession,
+              }
+            : { session: readySession },
+      };
+    }
+    case "multistream.connected":
+    case "multistream.error":
+    case "multistream.disconnected":
+      return {
+        sessionId: uuid(),
+        payload: {
+          target: {
+            id: uuid(),
+            name: "sample-target",
+            profile: "720p",
+          },
+        },
+      };
+    case "playback.user.new":
+      return { payload: { playbackId: stream.playbackId } };
+    case "asset.created":
+    case "asset.updated":
+    case "asset.deleted": {
+      const phase = event === "asset.created" ? "waiting" : "ready";
+      const snapshot = {
+        ...sampleAsset(userId, now, phase),
+        ...(event === "asset.deleted" && { deleted: true }),
+      };
+      return { payload: { asset: { id: snapshot.id, snapshot } } };
+    }
+    case "asset.ready":
+    case "asset.failed": {
+      const snapshot = sampleAsset(
+        userId,
+        now,
+        event === "asset.ready" ? "ready" : "failed"
+      );
+      return { payload: { id: snapshot.id, snapshot } };
+    }
+    case "task.spawned":
+    case "task.updated":
+    case "task.completed":
+    case "task.failed": {
+      const phase =
+        event === "task.spawned"
+          ? "pending"
+          : event === "task.updated"
+          ? "running"
+          : event === "task.completed"
+          ? "completed"
+          : "failed";
+      const task = sampleTask(userId, uuid(), now, phase);
+      const taskInfo = { id: task.id, type: task.type, snapshot: task };
+      if (event === "task.completed" || event === "task.failed") {
+        return {
+          payload: { success: event === "task.completed", task: taskInfo },
+        };
+      }
+      return { payload: { task: taskInfo } };
+    }
+    case "webhook.disabled":
+      return {
+        payload: {
+          webhook: {
+            id: uuid(),
+            name: "sample-webhook",
+            url: "https://example.com/webhook",
+            disabledReason: `Webhook failed 50 consecutive deliveries since ${new Date(
+              now - 24 * 60 * 60 * 1000
+            ).toISOString()}. Last error: Status code: 500`,
+          },
+        },
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Builds a webhook trigger for the given event with a realistic sample
+ * payload, to be used when test-firing a webhook.
+ */
+export function sampleWebhookTrigger(
+  webhook: DBWebhook,
+  user: WithID<User>,
+  event: EventKey
+): messages.WebhookTrigger {
+  const now = Date.now();
+  const stream = sampleStream(user.id, now);
+  const withStream =
+    event.startsWith("stream.") ||
+    event.startsWith("session.") ||
+    event.startsWith("recording.");
+
+  return {
+    type: "webhook_trigger",
+    id: uuid(),
+    timestamp: now,
+    streamId: withStream ? stream.id : undefined,
+    event: {
+      type: "webhook_event",
+      id: uuid(),
+      timestamp: now,
+      event,
+      userId: user.id,
+      streamId: withStream ? stream.id : undefined,
+      ...samplePayload(event, stream, now),
+    },
+    stream: withStream ? stream : undefined,
+    user,
+    webhook,
+  };
+}
@@ -11,6 +11,7 @@ import {
   DropdownMenuGroup,
   DropdownMenuTrigger,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   AlertDialog,
   AlertDialogTrigger,
   AlertDialogContent,
@@ -28,6 +29,7 @@ import {
 } from "./NavIcons";
 import { useApi } from "../../hooks";
 import Router from "next/router";
+import { useQuery } from "react-query";
 import { RocketIcon, ChatBubbleIcon } from "@radix-ui/react-icons";
 import Contact from "../Contact";
 
@@ -68,10 +70,40 @@ export type SidebarId =
   | "developers/webhooks"
   | "usage"
   | "billing"
-  | "billing/plans";
+  | "billing/plans"
+  | "organization";
 
 const Sidebar = ({ id }: { id: SidebarId }) => {
-  const { user, logout } = useApi();
+  const {
+    user,
+    logout,
+    organizationId,
+    getOrganizations,
+    switchOrganization,
+    projectId,
+    getProjects,
+    switchProject,
+  } = useApi();
+  const { data: organizations } = useQuery(
+    ["organizations"],
+    () => getOrganizations(),
+    { enabled: !!user }
+  );
+  const { data: projects } = useQuery(
+    ["projects", organizationId],
+    () => getProjects(),
+    { enabled: !!user }
+  );
+
+  const onSwitchOrganization = (id: string | null) => {
+    switchOrganization(id);
+    Router.push("/dashboard");
+  };
+
+  const onSwitchProject = (id: string | null) => {
+    switchProject(id);
+    Router.push("/dashboard");
+  };
 
   return (
     <Box
@@ -126,6 +158,14 @@ const Sidebar = ({ id }: { id: SidebarId }) => {
                 }}>
                 Billing
               </DropdownMenuItem>
+              <DropdownMenuItem
+                key="organization-dropdown-item"
+                onSelect={(e) => {
+                  e.preventDefault();
+                  Router.push("/dashboard/organization");
+                }}>
+                Organization
+              </DropdownMenuItem>
               <DropdownMenuItem
                 key="logout-dropdown-item"
                 onSelect={(e) => {
@@ -135,6 +175,48 @@ const Sidebar = ({ id }: { id: SidebarId }) => {
                 Logout
               </DropdownMenuItem>
             </DropdownMenuGroup>
+            {organizations?.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuGroup>
+                  <DropdownMenuItem
+                    key="personal-account-dropdown-item"
+                    disabled={!organizationId}
+                    onSelect={() => onSwitchOrganization(null)}>
+                    Personal account
+                  </DropdownMenuItem>
+                  {organizations.map((organization) => (
+                    <DropdownMenuItem
+                      key={organization.id}
+                      disabled={organization.id === organizationId}
+                      onSelect={() => onSwitchOrganization(organization.id)}>
+                      {organization.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuGroup>
+              </>
+            )}
+            {projects?.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuGroup>
+                  <DropdownMenuItem
+                    key="all-projects-dropdown-item"
+                    disabled={!projectId}
+                    onSelect={() => onSwitchProject(null)}>
+                    All projects
+                  </DropdownMenuItem>
+                  {projects.map((project) => (
+                    <DropdownMenuItem
+                      key={project.id}
+                      disabled={project.id === projectId}
+                      onSelect={() => onSwitchProject(project.id)}>
+                      {project.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuGroup>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
         <ThemeSwitch />
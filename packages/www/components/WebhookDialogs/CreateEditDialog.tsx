@@ -31,6 +31,9 @@ const eventOptions: Webhook["events"] = [
   "playback.accessControl",
   "stream.started",
   "stream.idle",
+  "stream.unhealthy",
+  "stream.healthy",
+  "session.ended",
   "recording.ready",
   "recording.started",
   "recording.waiting",
@@ -46,6 +49,7 @@ const eventOptions: Webhook["events"] = [
   "task.updated",
   "task.completed",
   "task.failed",
+  "webhook.disabled",
 ];
 
 export enum Action {
@@ -190,6 +190,14 @@ export const DashboardBilling = {
   },
 };
 
+export const DashboardOrganization = {
+  metaData: {
+    title: makeCompleteTitle("Organization"),
+    description: defaultDescription,
+    url: makeCompleteUrl(),
+  },
+};
+
 export const DashboardUsage = {
   metaData: {
     title: makeCompleteTitle("Usage"),
@@ -0,0 +1,148 @@
+import { ApiState } from "../types";
+import { SetStateAction } from "react";
+import {
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+} from "@livepeer.studio/api";
+import {
+  clearOrganization,
+  clearProject,
+  storeOrganization,
+} from "../tokenStorage";
+
+let context: any;
+let setState: (value: SetStateAction<ApiState>) => void;
+
+export const setSharedScope = (
+  _context: any,
+  _setState: (value: SetStateAction<ApiState>) => void
+) => {
+  context = _context;
+  setState = _setState;
+};
+
+const jsonRequest = (method: string, params?: object): RequestInit => ({
+  method,
+  body: params ? JSON.stringify(params) : undefined,
+  headers: {
+    "content-type": "application/json",
+  },
+});
+
+const checkStatus = (res: Response, body: any, status: number) => {
+  if (res.status !== status) {
+    throw new Error(body?.errors?.join(", ") ?? res.statusText);
+  }
+};
+
+/**
+ * Makes the following requests on behalf of the given organization, or of the
+ * personal account of the user if `null`.
+ */
+export const switchOrganization = (organizationId: string | null) => {
+  if (organizationId) {
+    storeOrganization(organizationId);
+  } else {
+    clearOrganization();
+  }
+  // projects belong to the account, so they don't carry over
+  clearProject();
+  setState((state) => ({ ...state, organizationId, projectId: null }));
+};
+
+export const getOrganizations = async (): Promise<Organization[]> => {
+  const [res, organizations] = await context.fetch(`/organization`);
+  checkStatus(res, organizations, 200);
+  return organizations;
+};
+
+export const getOrganization = async (id: string): Promise<Organization> => {
+  const [res, organization] = await context.fetch(`/organization/${id}`);
+  checkStatus(res, organization, 200);
+  return organization;
+};
+
+export const createOrganization = async (
+  name: string
+): Promise<Organization> => {
+  const [res, organization] = await context.fetch(
+    `/organization`,
+    jsonRequest("POST", { name })
+  );
+  checkStatus(res, organization, 201);
+  return organization;
+};
+
+export const getOrganizationMembers = async (
+  id: string
+): Promise<OrganizationMember[]> => {
+  const [res, members] = await context.fetch(`/organization/${id}/member`);
+  checkStatus(res, members, 200);
+  return members;
+};
+
+export const updateOrganizationMember = async (
+  id: string,
+  memberId: string,
+  role: OrganizationMember["role"]
+): Promise<void> => {
+  const [res, body] = await context.fetch(
+    `/organization/${id}/member/${memberId}`,
+    jsonRequest("PATCH", { role })
+  );
+  checkStatus(res, body, 204);
+};
+
+export const removeOrganizationMember = async (
+  id: string,
+  memberId: string
+): Promise<void> => {
+  const [res, body] = await context.fetch(
+    `/organization/${id}/member/${memberId}`,
+    { method: "DELETE" }
+  );
+  checkStatus(res, body, 204);
+};
+
+export const getOrganizationInvites = async (
+  id: string
+): Promise<OrganizationInvite[]> => {
+  const [res, invites] = await context.fetch(`/organization/${id}/invite`);
+  checkStatus(res, invites, 200);
+  return invites;
+};
+
+export const createOrganizationInvite = async (
+  id: string,
+  params: Pick<OrganizationInvite, "email" | "role">
+): Promise<OrganizationInvite> => {
+  const [res, invite] = await context.fetch(
+    `/organization/${id}/invite`,
+    jsonRequest("POST", params)
+  );
+  checkStatus(res, invite, 201);
+  return invite;
+};
+
+export const deleteOrganizationInvite = async (
+  id: string,
+  inviteId: string
+): Promise<void> => {
+  const [res, body] = await context.fetch(
+    `/organization/${id}/invite/${inviteId}`,
+    { method: "DELETE" }
+  );
+  checkStatus(res, body, 204);
+};
+
+export const acceptOrganizationInvite = async (
+  inviteId: string
+): Promise<OrganizationMember> => {
+  const [res, member] = await context.fetch(
+    `/organization/invite/${inviteId}/accept`,
+    { method: "POST" }
+  );
+  checkStatus(res, member, 201);
+  return member;
+};
@@ -0,0 +1,56 @@
+import { ApiState } from "../types";
+import { SetStateAction } from "react";
+import { Project, ProjectUsage } from "@livepeer.studio/api";
+import qs from "qs";
+import { clearProject, storeProject } from "../tokenStorage";
+
+let context: any;
+let setState: (value: SetStateAction<ApiState>) => void;
+
+export const setSharedScope = (
+  _context: any,
+  _setState: (value: SetStateAction<ApiState>) => void
+) => {
+  context = _context;
+  setState = _setState;
+};
+
+const checkStatus = (res: Response, body: any, status: number) => {
+  if (res.status !== status) {
+    throw new Error(body?.errors?.join(", ") ?? res.statusText);
+  }
+};
+
+/**
+ * Scopes the following requests to the resources of the given project, or to
+ * all the resources of the account if `null`.
+ */
+export const switchProject = (projectId: string | null) => {
+  if (projectId) {
+    storeProject(projectId);
+  } else {
+    clearProject();
+  }
+  setState((state) => ({ ...state, projectId }));
+};
+
+export const getProjects = async (): Promise<Project[]> => {
+  // list them all, not only the one currently selected
+  const [res, projects] = await context.fetch(`/project`, {
+    headers: { "livepeer-project": "" },
+  });
+  checkStatus(res, projects, 200);
+  return projects;
+};
+
+export const getProjectUsage = async (
+  projectId: string,
+  fromTime: number,
+  toTime: number
+): Promise<ProjectUsage> => {
+  const [res, usage] = await context.fetch(
+    `/project/${projectId}/usage?${qs.stringify({ fromTime, toTime })}`
+  );
+  checkStatus(res, usage, 200);
+  return usage;
+};
@@ -14,7 +14,12 @@ import {
 } from "../types";
 import { getCursor } from "../helpers";
 import { SetStateAction } from "react";
-import { storeToken, clearToken } from "../tokenStorage";
+import {
+  storeToken,
+  clearToken,
+  clearOrganization,
+  clearProject,
+} from "../tokenStorage";
 import { trackPageView } from "../tracking";
 import { products } from "@livepeer.studio/api/src/config";
 
@@ -451,6 +456,14 @@ export const updateCustomerPaymentMethod = async ({
 };
 
 export const logout = async () => {
-  setState((state) => ({ ...state, user: null, token: null }));
+  setState((state) => ({
+    ...state,
+    user: null,
+    token: null,
+    organizationId: null,
+    projectId: null,
+  }));
   clearToken();
+  clearOrganization();
+  clearProject();
 };
@@ -3,7 +3,14 @@ import jwt from "jsonwebtoken";
 import { User } from "@livepeer.studio/api";
 import { isStaging, isDevelopment } from "../../lib/utils";
 import { ApiState } from "./types";
-import { clearToken, getStoredToken } from "./tokenStorage";
+import {
+  clearOrganization,
+  clearProject,
+  clearToken,
+  getStoredOrganization,
+  getStoredProject,
+  getStoredToken,
+} from "./tokenStorage";
 import * as accessControlEndpointsFunctions from "./endpoints/accessControl";
 import * as apiTokenEndpointsFunctions from "./endpoints/apiToken";
 import * as assetEndpointsFunctions from "./endpoints/asset";
@@ -12,6 +19,8 @@ import * as dataEndpointsFunctions from "./endpoints/data";
 import * as ingestEndpointsFunctions from "./endpoints/ingest";
 import * as multistreamEndpointsFunctions from "./endpoints/multistream";
 import * as objectStoreEndpointsFunctions from "./endpoints/objectStore";
+import * as organizationEndpointsFunctions from "./endpoints/organization";
+import * as projectEndpointsFunctions from "./endpoints/project";
 import * as sessionEndpointsFunctions from "./endpoints/session";
 import * as clipEndpointsFunctions from "./endpoints/clip";
 import * as streamEndpointsFunctions from "./endpoints/stream";
@@ -54,6 +63,12 @@ const makeContext = (
       if (state.token && !headers.has("authorization")) {
         headers.set("authorization", `JWT ${state.token}`);
       }
+      if (state.organizationId && !headers.has("livepeer-organization")) {
+        headers.set("livepeer-organization", state.organizationId);
+      }
+      if (state.projectId && !headers.has("livepeer-project")) {
+        headers.set("livepeer-project", state.projectId);
+      }
       const res = await fetch(`${endpoint}/api${url}`, {
         ...opts,
         headers,
@@ -78,6 +93,8 @@ const makeContext = (
     ...ingestEndpointsFunctions,
     ...multistreamEndpointsFunctions,
     ...objectStoreEndpointsFunctions,
+    ...organizationEndpointsFunctions,
+    ...projectEndpointsFunctions,
     ...sessionEndpointsFunctions,
     ...clipEndpointsFunctions,
     ...streamEndpointsFunctions,
@@ -95,6 +112,8 @@ const makeContext = (
   ingestEndpointsFunctions.setSharedScope(context, setState);
   multistreamEndpointsFunctions.setSharedScope(context, setState);
   objectStoreEndpointsFunctions.setSharedScope(context, setState);
+  organizationEndpointsFunctions.setSharedScope(context, setState);
+  projectEndpointsFunctions.setSharedScope(context, setState);
   sessionEndpointsFunctions.setSharedScope(context, setState);
   clipEndpointsFunctions.setSharedScope(context, setState);
   streamEndpointsFunctions.setSharedScope(context, setState);
@@ -113,24 +132,37 @@ export const ApiContext = createContext(makeContext({} as ApiState, () => {}));
 export const ApiProvider = ({ children }) => {
   const [state, setState] = useState<ApiState>({
     token: getStoredToken(),
+    organizationId: getStoredOrganization(),
+    projectId: getStoredProject(),
   });
 
   const context = makeContext(state, setState);
 
-  // If our token changes, auto-refresh our current user
+  // If our token or organization changes, auto-refresh our current user
   useEffect(() => {
     if (state.token) {
       const data = jwt.decode(state.token);
-      context.getUser(data.sub).then(([res, user]) => {
-        if (res.status !== 200) {
+      // the user of an organization is its account, not the logged in one
+      const userId = state.organizationId ? "me" : data.sub;
+      context.getUser(userId).then(([res, user]) => {
+        if (res.status === 200) {
+          setState((state) => ({ ...state, user: user as User }));
+        } else if (state.organizationId) {
+          // probably no longer a member, go back to the personal account
+          clearOrganization();
+          clearProject();
+          setState((state) => ({
+            ...state,
+            organizationId: null,
+            projectId: null,
+          }));
+        } else {
           clearToken();
           setState((state) => ({ ...state, token: null }));
-        } else {
-          setState((state) => ({ ...state, user: user as User }));
         }
       });
     }
-  }, [state.token, state.userRefresh]);
+  }, [state.token, state.userRefresh, state.organizationId]);
 
   return <ApiContext.Provider value={context}>{children}</ApiContext.Provider>;
 };
@@ -1,32 +1,49 @@
 export const TOKEN_KEY = "PERSISTENT_TOKEN";
+export const ORGANIZATION_KEY = "PERSISTENT_ORGANIZATION";
+export const PROJECT_KEY = "PERSISTENT_PROJECT";
 
-export const storeToken = (token) => {
-  try {
-    localStorage.setItem(TOKEN_KEY, token);
-  } catch (err) {
-    console.error(`
-      Error storing persistent token: ${err.message}. Usually this means that you're in a
-      Safari private window and you don't want the token to persist anyway.
-    `);
-  }
-};
+const persistentStorage = (key: string, name: string) => ({
+  store: (value: string) => {
+    try {
+      localStorage.setItem(key, value);
+    } catch (err) {
+      console.error(`
+        Error storing persistent ${name}: ${err.message}. Usually this means that you're in a
+        Safari private window and you don't want the ${name} to persist anyway.
+      `);
+    }
+  },
+  get: (): string | null => {
+    if (!("browser" in process)) {
+      return null;
+    }
+    try {
+      return localStorage.getItem(key);
+    } catch (err) {
+      console.error(`Error retrieving persistent ${name}: ${err.message}.`);
+      return null;
+    }
+  },
+  clear: () => {
+    try {
+      localStorage.removeItem(key);
+    } catch (err) {
+      console.error(`Error clearing persistent ${name}: ${err.message}.`);
+    }
+  },
+});
 
-export const getStoredToken = () => {
-  if (!("browser" in process)) {
-    return null;
-  }
-  try {
-    return localStorage.getItem(TOKEN_KEY);
-  } catch (err) {
-    console.error(`Error retrieving persistent token: ${err.message}.`);
-    return null;
-  }
-};
+const tokenStorage = persistentStorage(TOKEN_KEY, "token");
+export const storeToken = tokenStorage.store;
+export const getStoredToken = tokenStorage.get;
+export const clearToken = tokenStorage.clear;
 
-export const clearToken = () => {
-  try {
-    localStorage.removeItem(TOKEN_KEY);
-  } catch (err) {
-    console.error(`Error clearing persistent token: ${err.message}.`);
-  }
-};
+const organizationStorage = persistentStorage(ORGANIZATION_KEY, "organization");
+export const storeOrganization = organizationStorage.store;
+export const getStoredOrganization = organizationStorage.get;
+export const clearOrganization = organizationStorage.clear;
+
+const projectStorage = persistentStorage(PROJECT_KEY, "project");
+export const storeProject = projectStorage.store;
+export const getStoredProject = projectStorage.get;
+export const clearProject = projectStorage.clear;
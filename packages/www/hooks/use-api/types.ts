@@ -15,6 +15,10 @@ export type FileUploadsDictionary = {
 export type ApiState = {
   user?: User;
   token?: string;
+  // organization the requests are made on behalf of, if any
+  organizationId?: string;
+  // project the resources of the account are scoped to, if any
+  projectId?: string;
   userRefresh?: number;
   noStripe?: boolean;
   currentFileUploads?: FileUploadsDictionary;
@@ -0,0 +1,293 @@
+import Layout from "layouts/dashboard";
+import { useApi, useLoggedIn } from "hooks";
+import {
+  Box,
+  Button,
+  Flex,
+  Heading,
+  Badge,
+  Select,
+  Text,
+  TextField,
+  useSnackbar,
+} from "@livepeer/design-system";
+import { useState } from "react";
+import { useQuery, useQueryClient } from "react-query";
+import { Organization, OrganizationMember } from "@livepeer.studio/api";
+import { DashboardOrganization as Content } from "content";
+
+type Role = OrganizationMember["role"];
+
+const roles: Role[] = ["viewer", "developer", "admin", "owner"];
+
+const isAdmin = (role: Role) => role === "admin" || role === "owner";
+
+const RoleSelect = ({
+  value,
+  allowOwner,
+  onChange,
+}: {
+  value: Role;
+  allowOwner: boolean;
+  onChange: (role: Role) => void;
+}) => (
+  <Select
+    css={{ fontSize: "$2", px: "$2", width: 140 }}
+    value={value}
+    onChange={(e) => onChange(e.target.value as Role)}>
+    {roles
+      .filter((role) => allowOwner || role !== "owner" || value === "owner")
+      .map((role) => (
+        <option key={role} value={role}>
+          {role}
+        </option>
+      ))}
+  </Select>
+);
+
+const CreateOrganization = ({ onCreate }: { onCreate: () => void }) => {
+  const { createOrganization } = useApi();
+  const [openSnackbar] = useSnackbar();
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  return (
+    <Box
+      as="form"
+      css={{ maxWidth: 480 }}
+      onSubmit={async (e) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+          await createOrganization(name);
+          onCreate();
+        } catch (err) {
+          openSnackbar(`Error creating organization: ${err.message}`);
+        } finally {
+          setSaving(false);
+        }
+      }}>
+      <Text variant="neutral" css={{ mb: "$4" }}>
+        Turn this account into an organization to invite your team. Its streams,
+        assets, webhooks, API keys and billing will be shared with the members
+        you invite.
+      </Text>
+      <Flex gap="2">
+        <TextField
+          size="2"
+          required
+          placeholder="Organization name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button size="2" variant="primary" type="submit" disabled={saving}>
+          Create organization
+        </Button>
+      </Flex>
+    </Box>
+  );
+};
+
+const OrganizationDetails = ({
+  organization,
+}: {
+  organization: Organization;
+}) => {
+  const {
+    getOrganizationMembers,
+    getOrganizationInvites,
+    updateOrganizationMember,
+    removeOrganizationMember,
+    createOrganizationInvite,
+    deleteOrganizationInvite,
+  } = useApi();
+  const [openSnackbar] = useSnackbar();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("developer");
+  const { id, role: myRole } = organization;
+  const canManage = isAdmin(myRole);
+
+  const { data: members } = useQuery(["organizationMembers", id], () =>
+    getOrganizationMembers(id)
+  );
+  const { data: invites } = useQuery(
+    ["organizationInvites", id],
+    () => getOrganizationInvites(id),
+    { enabled: canManage }
+  );
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      openSnackbar(`Error: ${err.message}`);
+    }
+    await queryClient.invalidateQueries(["organizationMembers", id]);
+    await queryClient.invalidateQueries(["organizationInvites", id]);
+  };
+
+  return (
+    <>
+      <Flex align="center" css={{ mb: "$5" }}>
+        <Heading size="2" css={{ fontWeight: 600, mr: "$3" }}>
+          {organization.name}
+        </Heading>
+        <Badge size="2" variant="primary">
+          {myRole}
+        </Badge>
+      </Flex>
+
+      <Heading size="1" css={{ fontWeight: 600, mb: "$3" }}>
+        Members
+      </Heading>
+      <Box css={{ mb: "$7" }}>
+        {members?.map((member) => (
+          <Flex
+            key={member.id}
+            align="center"
+            justify="between"
+            css={{
+              py: "$2",
+              borderBottom: "1px solid",
+              borderColor: "$neutral6",
+            }}>
+            <Text>{member.email}</Text>
+            <Flex align="center" gap="2">
+              {canManage && member.userId !== organization.userId ? (
+                <>
+                  <RoleSelect
+                    value={member.role}
+                    allowOwner={myRole === "owner"}
+                    onChange={(newRole) =>
+                      run(() =>
+                        updateOrganizationMember(id, member.id, newRole)
+                      )
+                    }
+                  />
+                  <Button
+                    size="1"
+                    variant="red"
+                    onClick={() =>
+                      run(() => removeOrganizationMember(id, member.id))
+                    }>
+                    Remove
+                  </Button>
+                </>
+              ) : (
+                <Badge size="1">{member.role}</Badge>
+              )}
+            </Flex>
+          </Flex>
+        ))}
+      </Box>
+
+      {canManage && (
+        <>
+          <Heading size="1" css={{ fontWeight: 600, mb: "$3" }}>
+            Invites
+          </Heading>
+          <Box css={{ mb: "$4" }}>
+            {invites?.length === 0 && (
+              <Text variant="neutral">No pending invites</Text>
+            )}
+            {invites?.map((invite) => (
+              <Flex
+                key={invite.id}
+                align="center"
+                justify="between"
+                css={{
+                  py: "$2",
+                  borderBottom: "1px solid",
+                  borderColor: "$neutral6",
+                }}>
+                <Text>
+                  {invite.email} ({invite.role})
+                </Text>
+                <Flex align="center" gap="2">
+                  <Text variant="neutral" size="2">
+                    Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                  </Text>
+                  <Button
+                    size="1"
+                    onClick={() =>
+                      run(() => deleteOrganizationInvite(id, invite.id))
+                    }>
+                    Cancel
+                  </Button>
+                </Flex>
+              </Flex>
+            ))}
+          </Box>
+          <Flex
+            as="form"
+            gap="2"
+            align="center"
+            onSubmit={async (e) => {
+              e.preventDefault();
+              await run(() => createOrganizationInvite(id, { email, role }));
+              setEmail("");
+            }}>
+            <TextField
+              size="2"
+              type="email"
+              required
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <RoleSelect
+              value={role}
+              allowOwner={myRole === "owner"}
+              onChange={setRole}
+            />
+            <Button size="2" variant="primary" type="submit">
+              Invite
+            </Button>
+          </Flex>
+        </>
+      )}
+    </>
+  );
+};
+
+const OrganizationPage = () => {
+  useLoggedIn();
+  const { user, organizationId, getOrganizations } = useApi();
+  const queryClient = useQueryClient();
+  const { data: organizations } = useQuery(
+    ["organizations"],
+    () => getOrganizations(),
+    { enabled: !!user }
+  );
+
+  if (!user) {
+    return <Layout />;
+  }
+  // without an organization selected the user is the personal account, which
+  // may itself be the account of an organization
+  const organization = organizations?.find((o) =>
+    organizationId ? o.id === organizationId : o.userId === user.id
+  );
+
+  return (
+    <Layout
+      id="organization"
+      breadcrumbs={[{ title: "Organization" }]}
+      {...Content.metaData}>
+      <Box css={{ p: "$6" }}>
+        {organization ? (
+          <OrganizationDetails organization={organization} />
+        ) : (
+          organizations && (
+            <CreateOrganization
+              onCreate={() => queryClient.invalidateQueries(["organizations"])}
+            />
+          )
+        )}
+      </Box>
+    </Layout>
+  );
+};
+
+export default OrganizationPage;
@@ -0,0 +1,65 @@
+import Layout from "layouts/dashboard";
+import { useApi, useLoggedIn } from "hooks";
+import { Box, Button, Text } from "@livepeer/design-system";
+import { useRouter } from "next/router";
+import { useState } from "react";
+import { useQueryClient } from "react-query";
+import { DashboardOrganization as Content } from "content";
+
+const AcceptInvite = () => {
+  useLoggedIn();
+  const { user, acceptOrganizationInvite, switchOrganization } = useApi();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string>(null);
+  const [accepting, setAccepting] = useState(false);
+  const { id } = router.query;
+
+  if (!user) {
+    return <Layout />;
+  }
+
+  const onAccept = async () => {
+    setAccepting(true);
+    try {
+      const member = await acceptOrganizationInvite(id as string);
+      await queryClient.invalidateQueries(["organizations"]);
+      switchOrganization(member.organizationId);
+      router.push("/dashboard");
+    } catch (err) {
+      setError(err.message);
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <Layout
+      id="organization"
+      breadcrumbs={[
+        { title: "Organization", href: "/dashboard/organization" },
+        { title: "Invite" },
+      ]}
+      {...Content.metaData}>
+      <Box css={{ p: "$6", maxWidth: 480 }}>
+        <Text css={{ mb: "$4" }}>
+          You have been invited to join an organization. Once you accept it, you
+          can switch to the organization from the account menu.
+        </Text>
+        {error && (
+          <Text variant="red" css={{ mb: "$4" }}>
+            {error}
+          </Text>
+        )}
+        <Button
+          size="2"
+          variant="primary"
+          disabled={accepting}
+          onClick={onAccept}>
+          Accept invite
+        </Button>
+      </Box>
+    </Layout>
+  );
+};
+
+export default AcceptInvite;